@@ -5,7 +5,8 @@ import { build } from 'tsup';
 	fs.removeSync('dist');
 
 	await build({
-		entry: ['src/index.ts'],
+		// Generator and CLI binary, and programmatic API which doesn't start the generator when imported
+		entry: { index: 'src/index.ts', api: 'src/api/index.ts' },
 		splitting: false,
 		sourcemap: true,
 		dts: true,
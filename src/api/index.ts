@@ -0,0 +1,112 @@
+import { type Config, parseConfig } from '@/config';
+import { outputFiles } from '@/util/output-files';
+import { type DMMF, GeneratorError, type GeneratorOptions } from '@prisma/generator-helper';
+import { getConfig, getDMMF } from '@prisma/internals';
+import fs from 'fs';
+import path from 'path';
+
+export type { Config } from '@/config';
+
+export type GenerateDrizzleSchemaOptions = {
+	/**
+	 * DMMF of the schema, parsed from `datamodel` or `schemaPath` if not set
+	 *
+	 * Doesn't replace the schema, which is still required for what DMMF doesn't expose: schemas, relation mode, names of constraints, views and sequences
+	 */
+	dmmf?: DMMF.Document;
+	/** Prisma schema, read from `schemaPath` if not set */
+	datamodel?: string;
+	/** Path to Prisma schema file, or to a folder of schema files */
+	schemaPath?: string;
+	/** Database provider, read from datasource of the schema if not set */
+	provider?: string;
+	/** Generator options, applied over options of generator block of the schema and validated the same way */
+	config?: Partial<Config>;
+	/** Name of schema file, if files aren't split */
+	schemaFile?: string;
+	/** Folder files are written to, baseline of `drizzleKitOut` isn't returned once drizzle-kit has own migrations in it */
+	outputFolder?: string;
+};
+
+const readSchema = (schemaPath: string): string => {
+	if (!fs.statSync(schemaPath).isDirectory()) return fs.readFileSync(schemaPath, 'utf8');
+
+	return fs.readdirSync(schemaPath, { recursive: true, encoding: 'utf8' })
+		.filter((file) => file.endsWith('.prisma'))
+		.sort()
+		.map((file) => fs.readFileSync(path.join(schemaPath, file), 'utf8'))
+		.join('\n');
+};
+
+// Generator blocks of this generator, as opposed to other generators of the schema
+const isDrizzleGenerator = (generator: GeneratorOptions['generator']) =>
+	!!generator.provider.value?.includes('drizzle-prisma-generator');
+
+/**
+ * Reads generator options of a Prisma schema without running `prisma generate`
+ */
+export const prismaSchemaOptions = async (
+	options: Omit<GenerateDrizzleSchemaOptions, 'config' | 'schemaFile' | 'outputFolder'>,
+): Promise<GeneratorOptions> => {
+	const datamodel = options.datamodel
+		?? (options.schemaPath === undefined ? undefined : readSchema(options.schemaPath));
+	if (datamodel === undefined) {
+		throw new GeneratorError(
+			'Either datamodel or schemaPath must be set.\nDMMF lacks parts of the schema, so it can only be passed along with them.',
+		);
+	}
+
+	const schemaConfig = await getConfig({ datamodel, ignoreEnvVarErrors: true });
+	const [datasource] = schemaConfig.datasources;
+	const provider = options.provider ?? datasource?.provider;
+	if (!provider) throw new GeneratorError('Unable to determine database type.\nSpecify provider option.');
+
+	const generator = schemaConfig.generators.find(isDrizzleGenerator);
+
+	return {
+		generator: generator ?? {
+			name: 'drizzle',
+			provider: { fromEnvVar: null, value: 'drizzle-prisma-generator' },
+			output: null,
+			config: {},
+			binaryTargets: [],
+			previewFeatures: [],
+			sourceFilePath: options.schemaPath ?? '',
+		},
+		otherGenerators: schemaConfig.generators.filter((e) => !isDrizzleGenerator(e)),
+		schemaPath: options.schemaPath ?? '',
+		dmmf: options.dmmf ?? await getDMMF({ datamodel }) as DMMF.Document,
+		datasources: [
+			{
+				name: datasource?.name ?? 'db',
+				provider: provider as GeneratorOptions['datasources'][number]['provider'],
+				activeProvider: provider as GeneratorOptions['datasources'][number]['activeProvider'],
+				url: datasource?.url ?? { fromEnvVar: null, value: '' },
+				schemas: datasource?.schemas ?? [],
+				sourceFilePath: datasource?.sourceFilePath ?? options.schemaPath ?? '',
+			},
+		],
+		datamodel,
+		// Version of Prisma engines, which aren't run by the generator
+		version: '',
+	};
+};
+
+// Options of generator block are strings, so options of API are passed to the same parsers as strings
+const generatorConfig = (config: Partial<Config>): GeneratorOptions['generator']['config'] =>
+	Object.fromEntries(
+		Object.entries(config).map(([key, value]) => [key, value === undefined ? undefined : String(value)]),
+	);
+
+/**
+ * Converts a Prisma schema to Drizzle schema without running `prisma generate`
+ *
+ * @returns map of file paths relative to output folder to their contents
+ */
+export const generateDrizzleSchema = async (options: GenerateDrizzleSchemaOptions): Promise<Record<string, string>> => {
+	const generatorOptions = await prismaSchemaOptions(options);
+
+	const config = parseConfig({ ...generatorOptions.generator.config, ...generatorConfig(options.config ?? {}) });
+
+	return outputFiles(generatorOptions, config, options.schemaFile, options.outputFolder);
+};
@@ -0,0 +1,124 @@
+import { prismaSchemaOptions } from '@/api';
+import { parseConfig } from '@/config';
+import { defaultPath } from '@/globals';
+import { outputFiles } from '@/util/output-files';
+import { recursiveWrite } from '@/util/recursive-write';
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+
+const usage = `Usage: drizzle-prisma-generator convert [schema] [--out <path>] [--check]
+
+Converts Prisma schema to Drizzle schema without running \`prisma generate\`
+
+Arguments:
+  schema          Path to Prisma schema file or folder, defaults to prisma/schema.prisma
+
+Options:
+  -o, --out       Output folder, or .ts file if files aren't split, defaults to output of generator block
+  --check         Don't write files, exit with non-zero code if files on disk are stale
+  -h, --help      Show this message`;
+
+const parseCliArgs = (args: string[]) =>
+	parseArgs({
+		args,
+		allowPositionals: true,
+		options: {
+			out: { type: 'string', short: 'o' },
+			check: { type: 'boolean', default: false },
+			help: { type: 'boolean', short: 'h', default: false },
+		},
+	});
+
+const fileList = (files: string[]) => files.map((file) => `  ${path.relative(process.cwd(), file)}`).join('\n');
+
+const isInside = (folder: string, file: string) => !path.relative(folder, file).startsWith('..');
+
+// Files of split schema on disk, which aren't generated anymore, e.g. of removed models.
+// Migrations of drizzle-kit after the baseline belong to drizzle-kit
+const leftoverFiles = (outputFolder: string, generated: ReadonlySet<string>, drizzleKitOut: string) => {
+	if (!fs.existsSync(outputFolder)) return [];
+
+	const drizzleKitFolder = drizzleKitOut ? path.join(outputFolder, drizzleKitOut) : undefined;
+
+	return fs.readdirSync(outputFolder, { recursive: true, encoding: 'utf8' })
+		.map((file) => path.join(outputFolder, file))
+		.filter((file) =>
+			file.endsWith('.ts') && !generated.has(file)
+			&& !(drizzleKitFolder && isInside(drizzleKitFolder, file))
+		);
+};
+
+/**
+ * Runs `convert` command
+ *
+ * @returns exit code
+ */
+export const convert = async (args: string[]): Promise<number> => {
+	let parsed: ReturnType<typeof parseCliArgs>;
+	try {
+		parsed = parseCliArgs(args);
+	} catch (e) {
+		console.error(`${(e as Error).message}\n\n${usage}`);
+		return 1;
+	}
+
+	const { values, positionals } = parsed;
+	if (values.help) {
+		console.log(usage);
+		return 0;
+	}
+
+	if (positionals.length > 1) {
+		console.error(`Unexpected arguments: ${positionals.slice(1).join(' ')}\n\n${usage}`);
+		return 1;
+	}
+
+	try {
+		const schemaPath = path.resolve(positionals[0] ?? 'prisma/schema.prisma');
+		const options = await prismaSchemaOptions({ schemaPath });
+		const config = parseConfig(options.generator.config);
+
+		// Prisma resolves output of generator block relative to the schema
+		const schemaOutput = options.generator.output?.value;
+		const outPath = values.out !== undefined
+			? path.resolve(values.out)
+			: schemaOutput
+			? path.resolve(path.dirname(schemaPath), schemaOutput)
+			: path.resolve(defaultPath);
+
+		if (config.splitFiles && outPath.endsWith('.ts')) {
+			console.error('Output must be a folder when splitFiles is enabled.');
+			return 1;
+		}
+
+		const outputFolder = outPath.endsWith('.ts') ? path.dirname(outPath) : outPath;
+		const files = Object.entries(
+			outputFiles(options, config, outPath.endsWith('.ts') ? path.basename(outPath) : undefined, outputFolder),
+		)
+			.map(([file, content]) => [path.join(outputFolder, file), content] as const);
+
+		if (values.check) {
+			const stale = files.filter(([file, content]) => !fs.existsSync(file) || fs.readFileSync(file, 'utf8') !== content)
+				.map(([file]) => file);
+			const leftovers = config.splitFiles
+				? leftoverFiles(outputFolder, new Set(files.map(([file]) => file)), config.drizzleKitOut)
+				: [];
+
+			if (stale.length) console.error(`Drizzle schema is stale, run convert to update:\n${fileList(stale)}`);
+			if (leftovers.length) console.error(`Files aren't generated anymore, remove them:\n${fileList(leftovers)}`);
+			if (stale.length || leftovers.length) return 1;
+
+			console.log('Drizzle schema is up to date');
+			return 0;
+		}
+
+		for (const [file, content] of files) recursiveWrite(file, content);
+
+		console.log(`Generated ${files.length} files in ${path.relative(process.cwd(), outputFolder) || '.'}`);
+		return 0;
+	} catch (e) {
+		console.error(e instanceof Error ? e.message : e);
+		return 1;
+	}
+};
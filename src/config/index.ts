@@ -0,0 +1,191 @@
+import { type IdentifierCase, identifierCases } from '@/util/case';
+import { GeneratorError, type GeneratorOptions } from '@prisma/generator-helper';
+
+export const drivers = [
+	'none',
+	'node-postgres',
+	'postgres-js',
+	'neon-http',
+	'mysql2',
+	'planetscale-serverless',
+	'better-sqlite3',
+	'libsql',
+	'bun-sqlite',
+] as const;
+
+export type Driver = typeof drivers[number];
+
+export type Config = {
+	/** Write each table, enum and relations declaration into a separate file */
+	splitFiles: boolean;
+	/** Generate `relations(...)` declarations used by relational queries */
+	relations: boolean;
+	/** Generate foreign key constraints */
+	foreignKeys: boolean;
+	/** Case of exported table variables */
+	tableCase: IdentifierCase;
+	/** Pluralize exported table variables */
+	tablePlural: boolean;
+	tablePrefix: string;
+	tableSuffix: string;
+	/** Case of exported enum variables */
+	enumCase: IdentifierCase;
+	enumPrefix: string;
+	enumSuffix: string;
+	/** Exported relations variables are named after their table: `${relationsPrefix}${table}${relationsSuffix}` */
+	relationsPrefix: string;
+	relationsSuffix: string;
+	/** Case of column and relation keys */
+	columnCase: IdentifierCase;
+	/** Generate `$inferSelect`, `$inferInsert` types of tables and union types of enums, named after Prisma models and enums */
+	inferTypes: boolean;
+	selectTypePrefix: string;
+	selectTypeSuffix: string;
+	insertTypePrefix: string;
+	insertTypeSuffix: string;
+	enumTypePrefix: string;
+	enumTypeSuffix: string;
+	/** Generate insert and select validation schemas of tables into `validators.ts` with chosen library */
+	validators: 'none' | 'zod' | 'valibot';
+	/** Runtime of `uuid()` defaults: global `crypto.randomUUID()` or `uuid` package, `uuid(7)` always uses `uuid` package */
+	uuidRuntime: 'crypto' | 'uuid';
+	/** Module `createId` of `cuid()` defaults is imported from */
+	cuidImportPath: string;
+	/** Module `nanoid` of `nanoid()` defaults is imported from */
+	nanoidImportPath: string;
+	/** Module `ulid` of `ulid()` defaults is imported from */
+	ulidImportPath: string;
+	/** Module column builders of `@drizzle.type(...)` directives are imported from */
+	customTypesImportPath: string;
+	/** Module types of `/// [Type]` annotations of Json fields are imported from, instead of global `PrismaJson` namespace */
+	jsonTypesImportPath: string;
+	/** Module `drizzle-orm` is imported from, dialect modules are imported from its `/pg-core`, `/mysql-core`, `/sqlite-core` */
+	drizzleImportPath: string;
+	/** Folder of drizzle-kit migrations relative to output folder, baseline snapshot of the schema is written into it */
+	drizzleKitOut: string;
+	/** Driver of `createDb` factory generated into `db.ts`, named after its `drizzle-orm` module */
+	driver: Driver;
+};
+
+export const defaultConfig: Config = {
+	splitFiles: false,
+	relations: true,
+	foreignKeys: true,
+	tableCase: 'preserve',
+	tablePlural: false,
+	tablePrefix: '',
+	tableSuffix: '',
+	enumCase: 'preserve',
+	enumPrefix: '',
+	enumSuffix: '',
+	relationsPrefix: '',
+	relationsSuffix: 'Relations',
+	columnCase: 'preserve',
+	inferTypes: false,
+	selectTypePrefix: '',
+	selectTypeSuffix: '',
+	insertTypePrefix: 'New',
+	insertTypeSuffix: '',
+	enumTypePrefix: '',
+	enumTypeSuffix: '',
+	validators: 'none',
+	uuidRuntime: 'crypto',
+	cuidImportPath: '@paralleldrive/cuid2',
+	nanoidImportPath: 'nanoid',
+	ulidImportPath: 'ulid',
+	customTypesImportPath: '',
+	jsonTypesImportPath: '',
+	drizzleImportPath: 'drizzle-orm',
+	drizzleKitOut: '',
+	driver: 'none',
+};
+
+type ConfigValue = string | string[];
+
+const invalidValue = (key: string, value: ConfigValue, expected: string) =>
+	new GeneratorError(
+		`Invalid value of generator option "${key}": ${JSON.stringify(value)}.\nExpected ${expected}.`,
+	);
+
+const parseBoolean = (key: string, value: ConfigValue) => {
+	if (value === 'true') return true;
+	if (value === 'false') return false;
+
+	throw invalidValue(key, value, '"true" or "false"');
+};
+
+const parseEnum = <T extends string>(values: readonly T[]) => (key: string, value: ConfigValue): T => {
+	if (typeof value === 'string' && values.includes(value as T)) return value as T;
+
+	throw invalidValue(key, value, `one of ${values.map((e) => `"${e}"`).join(', ')}`);
+};
+
+const parseString = (key: string, value: ConfigValue) => {
+	if (typeof value === 'string' && value.length) return value;
+
+	throw invalidValue(key, value, 'a non-empty string');
+};
+
+const parseIdentifierPart = (key: string, value: ConfigValue) => {
+	if (typeof value === 'string' && /^[\w$]*$/.test(value)) return value;
+
+	throw invalidValue(key, value, 'a string of letters, digits, "_" or "$"');
+};
+
+const parsers: {
+	[K in keyof Config]: (key: K, value: ConfigValue) => Config[K];
+} = {
+	splitFiles: parseBoolean,
+	relations: parseBoolean,
+	foreignKeys: parseBoolean,
+	tableCase: parseEnum(identifierCases),
+	tablePlural: parseBoolean,
+	tablePrefix: parseIdentifierPart,
+	tableSuffix: parseIdentifierPart,
+	enumCase: parseEnum(identifierCases),
+	enumPrefix: parseIdentifierPart,
+	enumSuffix: parseIdentifierPart,
+	relationsPrefix: parseIdentifierPart,
+	relationsSuffix: parseIdentifierPart,
+	columnCase: parseEnum(identifierCases),
+	inferTypes: parseBoolean,
+	selectTypePrefix: parseIdentifierPart,
+	selectTypeSuffix: parseIdentifierPart,
+	insertTypePrefix: parseIdentifierPart,
+	insertTypeSuffix: parseIdentifierPart,
+	enumTypePrefix: parseIdentifierPart,
+	enumTypeSuffix: parseIdentifierPart,
+	validators: parseEnum(['none', 'zod', 'valibot'] as const),
+	uuidRuntime: parseEnum(['crypto', 'uuid'] as const),
+	cuidImportPath: parseString,
+	nanoidImportPath: parseString,
+	ulidImportPath: parseString,
+	customTypesImportPath: parseString,
+	jsonTypesImportPath: parseString,
+	drizzleImportPath: parseString,
+	drizzleKitOut: parseString,
+	driver: parseEnum(drivers),
+};
+
+const isConfigKey = (key: string): key is keyof Config => Object.prototype.hasOwnProperty.call(parsers, key);
+
+export const parseConfig = (generatorConfig: GeneratorOptions['generator']['config']): Config => {
+	const config: Config = { ...defaultConfig };
+
+	for (const [key, value] of Object.entries(generatorConfig)) {
+		if (value === undefined) continue;
+
+		if (!isConfigKey(key)) {
+			throw new GeneratorError(
+				`Unknown generator option: "${key}".\nSupported options: ${Object.keys(parsers).join(', ')}.`,
+			);
+		}
+
+		(config as Record<keyof Config, unknown>)[key] = (parsers[key] as (key: string, value: ConfigValue) => unknown)(
+			key,
+			value,
+		);
+	}
+
+	return config;
+};
@@ -1,65 +1,46 @@
 #!/usr/bin/env node
+import { parseConfig } from '@/config';
 import { defaultPath, generatorName } from '@/globals';
 import { GeneratorError, generatorHandler } from '@prisma/generator-helper';
 import path from 'path';
 import { version } from '../package.json';
-import { generateMySqlSchema, generatePgSchema, generateSQLiteSchema } from './util/generators';
+import { outputFiles } from './util/output-files';
 import { recursiveWrite } from './util/recursive-write';
 
-export const generator = generatorHandler({
-	onManifest() {
-		return {
-			version,
-			defaultOutput: defaultPath,
-			prettyName: generatorName,
-		};
-	},
-	onGenerate: async (options) => {
-		const dbType = options.datasources[0]?.provider;
-
-		let output: string;
-
-		switch (dbType) {
-			case 'postgres':
-			case 'postgresql': {
-				output = generatePgSchema(options);
-
-				break;
-			}
-
-			case 'mysql': {
-				output = generateMySqlSchema(options);
-
-				break;
+const runGenerator = () =>
+	generatorHandler({
+		onManifest() {
+			return {
+				version,
+				defaultOutput: defaultPath,
+				prettyName: generatorName,
+			};
+		},
+		onGenerate: async (options) => {
+			const config = parseConfig(options.generator.config);
+
+			const folderPath = path.resolve(
+				options.generator.output?.value ?? (!!options.generator.output?.fromEnvVar
+					? process.env[options.generator.output.fromEnvVar!] ?? defaultPath
+					: defaultPath),
+			);
+
+			if (config.splitFiles && folderPath.endsWith('.ts')) {
+				throw new GeneratorError('Output must be a folder when splitFiles is enabled.');
 			}
 
-			case 'sqlite': {
-				output = generateSQLiteSchema(options);
+			const outputFolder = folderPath.endsWith('.ts') ? path.dirname(folderPath) : folderPath;
+			const schemaFile = folderPath.endsWith('.ts') ? path.basename(folderPath) : 'schema.ts';
 
-				break;
+			for (const [filePath, content] of Object.entries(outputFiles(options, config, schemaFile, outputFolder))) {
+				recursiveWrite(path.join(outputFolder, filePath), content);
 			}
-
-			case undefined:
-				throw new GeneratorError('Unable to determine database type.\nMake sure datasource.provider is specified.');
-
-			default:
-				throw new GeneratorError(
-					`Invalid database type for Drizzle schema generation: ${dbType}.\nSupported database types: PostgreSQL, MySQL, SQLite.`,
-				);
-		}
-
-		const folderPath = path.resolve(
-			options.generator.output?.value ?? (!!options.generator.output?.fromEnvVar
-				? process.env[options.generator.output.fromEnvVar!] ?? defaultPath
-				: defaultPath),
-		);
-
-		const schemaPath = folderPath.endsWith('.ts')
-			? folderPath
-			: path.join(folderPath, '/schema.ts');
-
-		recursiveWrite(schemaPath, output);
-	},
-});
-
-export default generator;
+		},
+	});
+
+// Prisma runs the generator without arguments, `@prisma/internals` of the CLI is only loaded when it's used
+if (process.argv[2] === 'convert') {
+	import('@/cli').then(({ convert }) => convert(process.argv.slice(3))).then((code) => process.exit(code));
+} else {
+	runGenerator();
+}
@@ -0,0 +1,49 @@
+export const identifierCases = ['preserve', 'camelCase', 'PascalCase', 'snake_case'] as const;
+
+export type IdentifierCase = typeof identifierCases[number];
+
+const words = (src: string) =>
+	src
+		.replace(/([a-z\d])([A-Z])/g, '$1 $2')
+		.replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+		.split(/[^A-Za-z\d$]+/)
+		.filter((e) => e.length);
+
+const capitalize = (src: string) => `${src.slice(0, 1).toUpperCase()}${src.slice(1).toLowerCase()}`;
+
+export const toCase = (src: string, identifierCase: IdentifierCase) => {
+	switch (identifierCase) {
+		case 'preserve':
+			return src;
+		case 'camelCase':
+			return words(src).map((e, i) => i ? capitalize(e) : e.toLowerCase()).join('');
+		case 'PascalCase':
+			return words(src).map(capitalize).join('');
+		case 'snake_case':
+			return words(src).map((e) => e.toLowerCase()).join('_');
+	}
+};
+
+const irregularPlurals: Record<string, string> = {
+	child: 'children',
+	man: 'men',
+	person: 'people',
+	woman: 'women',
+};
+
+export const pluralize = (src: string) => {
+	const lastWord = src.match(/[A-Z]?[a-z\d]*$|[A-Z\d]+$/)?.[0] ?? src;
+	const irregular = irregularPlurals[lastWord.toLowerCase()];
+	if (irregular) {
+		const plural = lastWord[0] === lastWord[0]?.toUpperCase()
+			? `${irregular[0]!.toUpperCase()}${irregular.slice(1)}`
+			: irregular;
+
+		return `${src.slice(0, src.length - lastWord.length)}${plural}`;
+	}
+
+	if (/(s|x|z|ch|sh)$/i.test(src)) return `${src}es`;
+	if (/[^aeiou]y$/i.test(src)) return `${src.slice(0, -1)}ies`;
+
+	return `${src}s`;
+};
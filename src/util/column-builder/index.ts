@@ -0,0 +1,29 @@
+import { s } from '@/util/escape';
+
+/**
+ * Call of a column builder, e.g. `varchar('name', { length: 191 })`,
+ * kept as data until code is written, so directives and drizzle-kit snapshots read it without parsing code
+ */
+export type ColumnBuilder = {
+	/** Function creating the column: builder of `drizzle-orm`, enum, custom type */
+	name: string;
+	/** Values of MySQL enum, passed after name of column */
+	values?: readonly string[];
+	/** Config of builder, options set to `undefined` aren't written */
+	options?: Readonly<Record<string, string | number | boolean | undefined>>;
+};
+
+const optionValue = (value: string | number | boolean) => typeof value === 'string' ? `'${s(value)}'` : String(value);
+
+/**
+ * @param colDbName escaped database name of the column
+ */
+export const columnBuilderCode = ({ name, values, options = {} }: ColumnBuilder, colDbName: string): string => {
+	const entries = Object.entries(options).flatMap(([key, value]) =>
+		value === undefined ? [] : `${key}: ${optionValue(value)}`
+	);
+
+	return `${name}('${colDbName}'${values ? `, [${values.map((e) => `'${s(e)}'`).join(', ')}]` : ''}${
+		entries.length ? `, { ${entries.join(', ')} }` : ''
+	})`;
+};
@@ -0,0 +1,13 @@
+export type CustomType = {
+	name: string;
+	/** TypeScript type of column data */
+	data: string;
+	sqlType: string;
+	/** Whether the SQL type accepts an optional `(length)` argument */
+	withLength?: boolean;
+};
+
+export const customTypeDefinition = ({ name, data, sqlType, withLength }: CustomType) =>
+	withLength
+		? `const ${name} = customType<{ data: ${data}; config: { length?: number } }>({\n\tdataType(config) {\n\t\treturn config?.length === undefined ? '${sqlType}' : \`${sqlType}(\${config.length})\`;\n\t}\n});`
+		: `const ${name} = customType<{ data: ${data} }>({\n\tdataType() {\n\t\treturn '${sqlType}';\n\t}\n});`;
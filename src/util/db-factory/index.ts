@@ -0,0 +1,121 @@
+import type { Config, Driver } from '@/config';
+import { s } from '@/util/escape';
+import type { GeneratedSchema } from '@/util/schema-files';
+import { GeneratorError, type GeneratorOptions } from '@prisma/generator-helper';
+
+type DriverFactory = {
+	/** Datasource providers the driver connects to */
+	providers: string[];
+	imports: string[];
+	/** Expression creating client of the driver from `url` */
+	client: string;
+	/** Options of `drizzle()` in addition to schema */
+	options?: string;
+};
+
+const pgProviders = ['postgres', 'postgresql', 'cockroachdb'];
+
+// SQLite drivers open files by path, while Prisma URLs of SQLite databases are prefixed with `file:`
+const sqlitePath = `url.replace(/^file:/, '')`;
+
+const driverFactories: Record<Exclude<Driver, 'none'>, DriverFactory> = {
+	'node-postgres': {
+		providers: pgProviders,
+		imports: [`import { Pool } from 'pg'`],
+		client: 'new Pool({ connectionString: url })',
+	},
+	'postgres-js': {
+		providers: pgProviders,
+		imports: [`import postgres from 'postgres'`],
+		client: 'postgres(url)',
+	},
+	'neon-http': {
+		providers: ['postgres', 'postgresql'],
+		imports: [`import { neon } from '@neondatabase/serverless'`],
+		client: 'neon(url)',
+	},
+	mysql2: {
+		providers: ['mysql'],
+		imports: [`import mysql from 'mysql2/promise'`],
+		client: 'mysql.createPool(url)',
+		// Relational queries of `mysql2` driver need to know whether database is PlanetScale
+		options: `mode: 'default'`,
+	},
+	'planetscale-serverless': {
+		providers: ['mysql'],
+		imports: [`import { Client } from '@planetscale/database'`],
+		client: 'new Client({ url })',
+	},
+	'better-sqlite3': {
+		providers: ['sqlite'],
+		imports: [`import Database from 'better-sqlite3'`],
+		client: `new Database(${sqlitePath})`,
+	},
+	libsql: {
+		providers: ['sqlite'],
+		imports: [`import { createClient } from '@libsql/client'`],
+		client: 'createClient({ url })',
+	},
+	'bun-sqlite': {
+		providers: ['sqlite'],
+		imports: [`import { Database } from 'bun:sqlite'`],
+		client: `new Database(${sqlitePath})`,
+	},
+};
+
+/**
+ * Generates `schema` object of tables and relations with `createDb` factory of the configured driver,
+ * connecting to URL of the datasource by default
+ *
+ * @param schemaImportPath path generated schema is imported from by the file
+ */
+export const generateDbFactory = (
+	schema: GeneratedSchema,
+	datasource: GeneratorOptions['datasources'][number],
+	config: Config,
+	schemaImportPath: string,
+): string => {
+	const driver = config.driver as Exclude<Driver, 'none'>;
+	const factory = driverFactories[driver];
+
+	if (!factory.providers.includes(datasource.provider)) {
+		throw new GeneratorError(
+			`Driver "${driver}" doesn't support ${datasource.provider} databases.\nSupported drivers: ${
+				Object.entries(driverFactories)
+					.filter(([, e]) => e.providers.includes(datasource.provider))
+					.map(([name]) => name)
+					.join(', ')
+			}.`,
+		);
+	}
+
+	// Schema is imported as a namespace, so tables can't clash with names imported from drivers
+	const schemaEntries = schema.declarations
+		.filter((e) => e.kind === 'table' || e.kind === 'relations')
+		.map((e) => `\t${e.name}: generated.${e.name}`);
+
+	const { fromEnvVar, value } = datasource.url;
+	const envVar = fromEnvVar ? s(fromEnvVar) : undefined;
+	const urlParam = envVar
+		? `url = process.env['${envVar}']`
+		: value
+		? `url = '${s(value)}'`
+		: 'url: string';
+	const urlCheck = envVar
+		? `\tif (!url) throw new Error('${envVar} environment variable is not set');\n\n`
+		: '';
+
+	return [
+		[
+			`import { drizzle } from '${config.drizzleImportPath}/${driver}'`,
+			...factory.imports,
+			`import * as generated from '${schemaImportPath}'`,
+		].join('\n'),
+		`export const schema = {\n${schemaEntries.join(',\n')}\n};`,
+		`/**\n * Creates Drizzle ORM database of \`${driver}\` driver with relational queries of generated schema\n */\n`
+		+ `export const createDb = (${urlParam}) => {\n${urlCheck}\treturn drizzle(${factory.client}, { schema${
+			factory.options ? `, ${factory.options}` : ''
+		} });\n};`,
+		`export type Db = ReturnType<typeof createDb>;`,
+	].join('\n\n');
+};
@@ -0,0 +1,56 @@
+import type { Config } from '@/config';
+import type { SchemaImport } from '@/util/schema-files';
+import { GeneratorError } from '@prisma/generator-helper';
+
+export type DefaultFn = {
+	/** Expression returned by `$defaultFn` callback */
+	expression: string;
+	import?: SchemaImport;
+};
+
+/**
+ * Translates Prisma defaults generated by Prisma client instead of database into `$defaultFn` expressions,
+ * returns `undefined` for database-generated defaults
+ */
+export const clientDefaultFn = (value: { name: string; args: unknown[] }, config: Config): DefaultFn | undefined => {
+	// Older Prisma versions pass arguments as a part of name: `uuid(4)`
+	const [, name = value.name, nameArg] = /^(\w+)\((\d*)\)$/.exec(value.name) ?? [];
+	const [arg = nameArg || undefined] = value.args;
+
+	switch (name) {
+		case 'uuid': {
+			const version = arg === undefined ? 4 : Number(arg);
+
+			if (version === 4) {
+				if (config.uuidRuntime === 'crypto') return { expression: 'crypto.randomUUID()' };
+
+				return { expression: 'uuidv4()', import: { from: 'uuid', names: ['v4 as uuidv4'] } };
+			}
+
+			if (version === 7) return { expression: 'uuidv7()', import: { from: 'uuid', names: ['v7 as uuidv7'] } };
+
+			throw new GeneratorError(`Unsupported uuid version of default: ${value.name}(${value.args.join(', ')})`);
+		}
+
+		case 'cuid': {
+			// CUID v1 is deprecated and insecure, so `cuid()` gets ids of CUID2 format as well
+			if (arg === undefined || [1, 2].includes(Number(arg))) {
+				return { expression: 'createId()', import: { from: config.cuidImportPath, names: ['createId'] } };
+			}
+
+			throw new GeneratorError(`Unsupported cuid version of default: ${value.name}(${value.args.join(', ')})`);
+		}
+
+		case 'nanoid':
+			return {
+				expression: `nanoid(${arg === undefined ? '' : Number(arg)})`,
+				import: { from: config.nanoidImportPath, names: ['nanoid'] },
+			};
+
+		case 'ulid':
+			return { expression: 'ulid()', import: { from: config.ulidImportPath, names: ['ulid'] } };
+
+		default:
+			return undefined;
+	}
+};
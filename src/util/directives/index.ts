@@ -0,0 +1,241 @@
+import type { Config } from '@/config';
+import type { ColumnBuilder } from '@/util/column-builder';
+import type { Index, Model } from '@/util/dmmf';
+import type { SchemaImport } from '@/util/schema-files';
+import { type DMMF, GeneratorError } from '@prisma/generator-helper';
+
+export type Directives = {
+	/** Skip generation of model or field */
+	ignore?: boolean;
+	/** Exported name of table, view or enum */
+	name?: string;
+	/** Column builder used instead of generated column type */
+	type?: string;
+	/** Type of column values, passed to `.$type<...>()` */
+	$type?: string;
+	/** Mode of column builder, e.g. `string` for timestamps or `number` for bigints */
+	mode?: string;
+	/** Import of type used by `$type`, read from `prisma-json-types-generator` annotation */
+	$typeImport?: SchemaImport;
+};
+
+type DirectiveLocation = 'model' | 'field' | 'enum';
+
+const directiveLineRegex = /^\s*@drizzle\.(.*)$/;
+
+const directiveParsers: {
+	[K in Exclude<keyof Directives, '$typeImport'>]-?: {
+		regex: RegExp;
+		locations: DirectiveLocation[];
+		parse: (match: RegExpMatchArray) => Directives[K];
+	};
+} = {
+	ignore: { regex: /^ignore(?:\(\))?$/, locations: ['model', 'field'], parse: () => true },
+	name: { regex: /^name\(\s*([A-Za-z_$][\w$]*)\s*\)$/, locations: ['model', 'enum'], parse: ([, name]) => name },
+	type: { regex: /^type\(\s*([A-Za-z_$][\w$]*)\s*\)$/, locations: ['field'], parse: ([, type]) => type },
+	$type: { regex: /^\$type<(.+)>\(\)$/, locations: ['field'], parse: ([, type]) => type!.trim() },
+	mode: { regex: /^mode\(\s*(\w+)\s*\)$/, locations: ['field'], parse: ([, mode]) => mode },
+};
+
+/**
+ * Removes directive lines, which aren't a part of documentation
+ */
+export const withoutDirectives = (documentation: string | undefined): string | undefined =>
+	documentation?.split(/\r?\n/).filter((line) => !directiveLineRegex.test(line)).join('\n');
+
+const parseDirectives = (documentation: string | undefined, location: DirectiveLocation, source: string) => {
+	const directives: Directives = {};
+
+	for (const line of documentation?.split(/\r?\n/) ?? []) {
+		const directive = line.match(directiveLineRegex)?.[1]?.trim();
+		if (directive === undefined) continue;
+
+		const [key, parser] = Object.entries(directiveParsers).find(([, { regex }]) => regex.test(directive)) ?? [];
+		if (!key || !parser) {
+			throw new GeneratorError(`Unknown directive on ${location} ${source}: @drizzle.${directive}`);
+		}
+
+		if (!parser.locations.includes(location)) {
+			throw new GeneratorError(
+				`Directive @drizzle.${key} can't be used on ${location} ${source}, only on ${parser.locations.join(', ')}`,
+			);
+		}
+
+		(directives as Record<string, unknown>)[key] = parser.parse(directive.match(parser.regex)!);
+	}
+
+	return directives;
+};
+
+const jsonTypeRegex = /^\s*(!?)\[(.+)\]\s*$/m;
+
+/**
+ * Removes `prisma-json-types-generator` annotation lines of Json fields, which aren't a part of documentation
+ */
+export const withoutJsonType = (documentation: string | undefined): string | undefined =>
+	documentation?.split(/\r?\n/).filter((line) => !jsonTypeRegex.test(line)).join('\n');
+
+/**
+ * Reads type of Json field from `prisma-json-types-generator` annotation:
+ * `[Name]` references a type of global `PrismaJson` namespace, or of `jsonTypesImportPath` module if it's set,
+ * `![Type]` is used as is
+ */
+const jsonTypeDirectives = (documentation: string | undefined, config: Config): Directives => {
+	const [, literal, type] = documentation?.match(jsonTypeRegex) ?? [];
+	if (!type) return {};
+
+	if (literal) return { $type: type.trim() };
+	if (!config.jsonTypesImportPath) return { $type: `PrismaJson.${type.trim()}` };
+
+	const name = type.trim().match(/^[A-Za-z_$][\w$]*/)?.[0];
+
+	return {
+		$type: type.trim(),
+		$typeImport: name ? { from: config.jsonTypesImportPath, names: [`type ${name}`] } : undefined,
+	};
+};
+
+export type SchemaDirectives = {
+	model: (modelName: string) => Directives;
+	field: (modelName: string, fieldName: string) => Directives;
+	enum: (enumName: string) => Directives;
+	/** Exported names set by `@drizzle.name` of models, views and enums */
+	names: Map<string, string>;
+};
+
+/**
+ * Parses `@drizzle.*` directives of `///` documentation of models, views, their fields and enums,
+ * along with `prisma-json-types-generator` annotations of Json fields
+ */
+export const parseSchemaDirectives = (
+	models: readonly DMMF.Model[],
+	enums: readonly DMMF.DatamodelEnum[],
+	config: Config,
+): SchemaDirectives => {
+	const modelDirectives = new Map<string, Directives>();
+	const fieldDirectives = new Map<string, Directives>();
+	const enumDirectives = new Map<string, Directives>();
+	const names = new Map<string, string>();
+
+	for (const model of models) {
+		const directives = parseDirectives(model.documentation, 'model', model.name);
+		modelDirectives.set(model.name, directives);
+		if (directives.name) names.set(model.name, directives.name);
+
+		for (const field of model.fields) {
+			const directives = parseDirectives(field.documentation, 'field', `${model.name}.${field.name}`);
+
+			fieldDirectives.set(
+				`${model.name}.${field.name}`,
+				field.type === 'Json' && !directives.$type
+					? { ...directives, ...jsonTypeDirectives(field.documentation, config) }
+					: directives,
+			);
+		}
+	}
+
+	for (const schemaEnum of enums) {
+		const directives = parseDirectives(schemaEnum.documentation, 'enum', schemaEnum.name);
+		enumDirectives.set(schemaEnum.name, directives);
+		if (directives.name) names.set(schemaEnum.name, directives.name);
+	}
+
+	return {
+		model: (modelName) => modelDirectives.get(modelName) ?? {},
+		field: (modelName, fieldName) => fieldDirectives.get(`${modelName}.${fieldName}`) ?? {},
+		enum: (enumName) => enumDirectives.get(enumName) ?? {},
+		names,
+	};
+};
+
+/**
+ * Removes models and fields marked with `@drizzle.ignore`, along with relation fields referencing ignored models
+ */
+export const withoutIgnored = <TModel extends Model>(
+	models: TModel[],
+	indexes: readonly Index[],
+	directives: SchemaDirectives,
+): TModel[] =>
+	models.filter((model) => !directives.model(model.name).ignore).map((model) => {
+		const ignored = new Set(
+			model.fields.filter((field) => directives.field(model.name, field.name).ignore).map((field) => field.name),
+		);
+
+		const usages = [
+			...(model.primaryKey?.fields ?? []),
+			...model.uniqueIndexes.flatMap((idx) => idx.fields),
+			...model.fields.flatMap((field) => field.relationFromFields ?? []),
+			...indexes.filter((idx) => idx.model === model.name).flatMap((idx) => idx.fields.map((f) => f.name)),
+		];
+		const used = usages.find((name) => ignored.has(name));
+		if (used) {
+			throw new GeneratorError(`Field ${model.name}.${used} is used by a key, index or relation and can't be ignored`);
+		}
+
+		return {
+			...model,
+			fields: model.fields.filter((field) =>
+				!ignored.has(field.name) && !(field.kind === 'object' && directives.model(field.type).ignore)
+			),
+		};
+	});
+
+/**
+ * Modes of column builders, which `@drizzle.mode` can set, starting with the mode of builder without options
+ */
+export type ColumnModes = Record<string, readonly string[]>;
+
+/**
+ * Applies `@drizzle.type` and `@drizzle.mode` directives to generated column builder,
+ * collecting imports of `@drizzle.type` builders and of `@drizzle.$type` types
+ *
+ * @param hasClientValues - whether default or `@updatedAt` values of the column are written in generated code,
+ * so their type can't be changed by the mode
+ */
+export const applyColumnDirectives = (
+	builder: ColumnBuilder | undefined,
+	directives: Directives,
+	config: Config,
+	fieldName: string,
+	modes: ColumnModes,
+	hasClientValues: boolean,
+): { builder?: ColumnBuilder; imports: SchemaImport[] } => {
+	const imports: SchemaImport[] = [];
+
+	if (directives.type) {
+		if (!config.customTypesImportPath) {
+			throw new GeneratorError(
+				`Directive @drizzle.type of field ${fieldName} requires "customTypesImportPath" generator option to be set`,
+			);
+		}
+
+		builder = { name: directives.type };
+		imports.push({ from: config.customTypesImportPath, names: [directives.type] });
+	}
+
+	if (builder && directives.mode) {
+		// Modes of `@drizzle.type` builders are up to their definitions
+		if (!directives.type) {
+			const builderModes = modes[builder.name];
+			if (!builderModes?.includes(directives.mode)) {
+				throw new GeneratorError(
+					`Directive @drizzle.mode(${directives.mode}) of field ${fieldName} isn't supported by ${builder.name} column${
+						builderModes ? `, supported modes are ${builderModes.join(', ')}` : ' of its type'
+					}`,
+				);
+			}
+
+			const generatedMode = (builder.options?.['mode'] as string | undefined) ?? builderModes[0];
+			if (hasClientValues && directives.mode !== generatedMode) {
+				throw new GeneratorError(
+					`Directive @drizzle.mode(${directives.mode}) of field ${fieldName} changes type of its values, while its default or @updatedAt values are written in mode ${generatedMode}`,
+				);
+			}
+		}
+
+		builder = { ...builder, options: { ...builder.options, mode: directives.mode } };
+	}
+	if (directives.$typeImport) imports.push(directives.$typeImport);
+
+	return { builder, imports };
+};
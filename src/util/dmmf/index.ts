@@ -0,0 +1,41 @@
+import type { DMMF } from '@prisma/generator-helper';
+
+/*
+Newer Prisma versions expose more information in DMMF than `@prisma/generator-helper` typings describe.
+These are optional, so the generators can still fall back to plain scalar types on older Prisma versions.
+*/
+
+export type NativeType = readonly [name: string, args: readonly string[]];
+
+export type Field = DMMF.Field & {
+	readonly nativeType?: NativeType | null;
+	readonly relationOnDelete?: string | null;
+	readonly relationOnUpdate?: string | null;
+};
+
+export type IndexField = {
+	readonly name: string;
+	readonly sortOrder?: 'asc' | 'desc';
+	readonly length?: number;
+	readonly operatorClass?: string;
+};
+
+export type Index = {
+	readonly model: string;
+	readonly type: 'id' | 'normal' | 'unique' | 'fulltext';
+	readonly isDefinedOnField: boolean;
+	readonly name?: string;
+	readonly dbName?: string;
+	readonly algorithm?: string;
+	readonly clustered?: boolean;
+	readonly fields: readonly IndexField[];
+};
+
+export type Datamodel = DMMF.Datamodel & {
+	readonly indexes?: readonly Index[];
+	readonly views?: readonly DMMF.Model[];
+};
+
+export type Model = DMMF.Model & {
+	readonly schema?: string | null;
+};
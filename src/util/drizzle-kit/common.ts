@@ -0,0 +1,39 @@
+import type { ColumnBuilder } from '@/util/column-builder';
+import type { CustomType } from '@/util/custom-type';
+import type { ColumnIR, SchemaIR, TableIR } from '@/util/schema-ir';
+
+export type Dialect = 'postgresql' | 'mysql' | 'sqlite';
+
+export type SnapshotSource = {
+	ir: SchemaIR;
+	/** Column builders, as emitted after directives */
+	columnBuilders: Map<ColumnIR, ColumnBuilder>;
+	customTypes: Map<string, CustomType>;
+};
+
+/**
+ * @returns SQL type of custom type column, `undefined` if builder isn't a generated custom type
+ */
+export const customSqlType = ({ name, options = {} }: ColumnBuilder, source: SnapshotSource) => {
+	const customType = source.customTypes.get(name);
+	if (!customType) return undefined;
+
+	return options['length'] === undefined ? customType.sqlType : `${customType.sqlType}(${options['length']})`;
+};
+
+/** Database names of columns by their keys */
+export const columnDbNames = (table: Pick<TableIR, 'columns'>, keys: readonly string[]) =>
+	keys.map((key) => table.columns.find((e) => e.key === key)?.dbName ?? key);
+
+/** Tables by their exported variables, foreign keys reference tables by variables */
+export const tablesByVariable = (ir: SchemaIR) => new Map(ir.tables.map((table) => [table.variable, table]));
+
+/** Columns, which are generated into the schema, in order of declaration */
+export const emittedColumns = (columns: readonly ColumnIR[], source: SnapshotSource) =>
+	columns.flatMap((column) => {
+		const builder = source.columnBuilders.get(column);
+
+		return builder === undefined ? [] : [{ column, builder }];
+	});
+
+export const escapeSingleQuotes = (value: string) => value.replace(/'/g, `''`);
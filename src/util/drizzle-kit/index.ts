@@ -0,0 +1,84 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Dialect, SnapshotSource } from './common';
+import { mySqlSnapshot } from './mysql';
+import { pgSnapshot } from './pg';
+import { sqliteSnapshot } from './sqlite';
+
+export type { Dialect } from './common';
+
+export type DrizzleKitSnapshot = {
+	id: string;
+	prevId: string;
+	version: string;
+	dialect: Dialect;
+} & Record<string, unknown>;
+
+const baselineTag = '0000_baseline';
+const originId = '00000000-0000-0000-0000-000000000000';
+
+// Snapshot id is derived from its contents, so regenerated files only change with the schema
+const snapshotId = (snapshot: object) => {
+	const hash = createHash('sha256').update(JSON.stringify(snapshot)).digest('hex');
+
+	return `${hash.slice(0, 8)}-${hash.slice(8, 12)}-${hash.slice(12, 16)}-${hash.slice(16, 20)}-${hash.slice(20, 32)}`;
+};
+
+const dialectSnapshot = (dialect: Dialect, source: SnapshotSource) => {
+	switch (dialect) {
+		case 'postgresql':
+			return pgSnapshot(source);
+		case 'mysql':
+			return mySqlSnapshot(source);
+		case 'sqlite':
+			return sqliteSnapshot(source);
+	}
+};
+
+/**
+ * Builds drizzle-kit snapshot of generated schema
+ */
+export const drizzleKitSnapshot = (dialect: Dialect, source: SnapshotSource): DrizzleKitSnapshot => {
+	const snapshot = dialectSnapshot(dialect, source);
+
+	return { id: snapshotId(snapshot), prevId: originId, ...snapshot } as DrizzleKitSnapshot;
+};
+
+/**
+ * Checks journal of drizzle-kit `out` folder for migrations generated after the baseline,
+ * which would be lost if the journal was rewritten
+ */
+export const hasDrizzleKitMigrations = (out: string): boolean => {
+	const journalPath = path.join(out, 'meta/_journal.json');
+	if (!fs.existsSync(journalPath)) return false;
+
+	try {
+		const journal = JSON.parse(fs.readFileSync(journalPath, 'utf8')) as { entries?: { tag?: string }[] };
+
+		return !!journal.entries?.some((e) => e.tag !== baselineTag);
+	} catch {
+		// Journal that can't be read isn't the one written by generator
+		return true;
+	}
+};
+
+/**
+ * Generates baseline migration of drizzle-kit: journal, snapshot and migration without statements,
+ * as the schema is already created by Prisma migrations
+ *
+ * @returns map of file paths relative to drizzle-kit `out` folder to their contents
+ */
+export const baselineMigrationFiles = (snapshot: DrizzleKitSnapshot): Record<string, string> => ({
+	'meta/_journal.json': JSON.stringify(
+		{
+			version: '7',
+			dialect: snapshot.dialect,
+			entries: [{ idx: 0, version: snapshot.version, when: 0, tag: baselineTag, breakpoints: true }],
+		},
+		null,
+		2,
+	),
+	'meta/0000_snapshot.json': JSON.stringify(snapshot, null, 2),
+	[`${baselineTag}.sql`]: '-- Baseline of the schema created by Prisma migrations, intentionally empty\n',
+});
@@ -0,0 +1,192 @@
+import type { ColumnBuilder } from '@/util/column-builder';
+import type { ColumnIR } from '@/util/schema-ir';
+import {
+	columnDbNames,
+	customSqlType,
+	emittedColumns,
+	escapeSingleQuotes,
+	type SnapshotSource,
+	tablesByVariable,
+} from './common';
+
+const integerTypes = ['tinyint', 'smallint', 'mediumint', 'int', 'bigint'];
+
+const mySqlType = (column: ColumnIR, builder: ColumnBuilder, source: SnapshotSource) => {
+	const { name, options: { length, precision, scale, fsp, unsigned } = {} } = builder;
+
+	if (name === 'mysqlEnum' && column.enum) {
+		return `enum(${column.enum.values.map((e) => `'${escapeSingleQuotes(e.dbName)}'`).join(',')})`;
+	}
+	if (integerTypes.includes(name)) return unsigned === true ? `${name} unsigned` : name;
+
+	switch (name) {
+		case 'decimal': {
+			const sqlType = precision === undefined
+				? 'decimal'
+				: scale === undefined
+				? `decimal(${precision})`
+				: `decimal(${precision},${scale})`;
+
+			// drizzle-kit writes default precision as plain `decimal`
+			return sqlType === 'decimal(10,0)' || sqlType === 'decimal(10)' ? 'decimal' : sqlType;
+		}
+		case 'datetime':
+		case 'timestamp':
+		case 'time':
+			return fsp === undefined ? name : `${name}(${fsp})`;
+		case 'binary':
+		case 'varbinary':
+		case 'char':
+		case 'varchar':
+			return length === undefined ? name : `${name}(${length})`;
+		default:
+			return customSqlType(builder, source) ?? name;
+	}
+};
+
+const mySqlValue = (value: unknown, sqlType: string) => {
+	if (typeof value === 'string') return `'${escapeSingleQuotes(value)}'`;
+	if (sqlType === 'json') return `'${JSON.stringify(value)}'`;
+	if (value instanceof Date) {
+		return sqlType === 'date'
+			? `'${value.toISOString().split('T')[0]}'`
+			: `'${value.toISOString().replace('T', ' ').slice(0, 23)}'`;
+	}
+	// JSON can't hold bigints, written as numbers to SQL
+	if (typeof value === 'bigint') return value.toString();
+
+	// Buffers are written as is, serialized to JSON
+	return value;
+};
+
+// Defaults are written the way drizzle-kit serializes `.default(...)` values of columns
+const mySqlDefault = (column: ColumnIR, builder: ColumnBuilder, sqlType: string) => {
+	const defVal = column.default;
+	const { options: { fsp } = {} } = builder;
+
+	switch (defVal?.kind) {
+		case 'value': {
+			const { value } = defVal;
+			if (Buffer.isBuffer(value) && (sqlType.startsWith('binary') || sqlType.startsWith('varbinary'))) {
+				return `x'${value.toString('hex')}'`;
+			}
+
+			const written = mySqlValue(value, sqlType);
+			// Literal defaults of these types are only allowed as expressions
+			return ['blob', 'text', 'json'].includes(sqlType) ? `(${written})` : written;
+		}
+		case 'now':
+			return fsp === undefined ? 'CURRENT_TIMESTAMP' : `CURRENT_TIMESTAMP(${fsp})`;
+		case 'sql':
+			return defVal.sql;
+		default:
+			return undefined;
+	}
+};
+
+/**
+ * Builds snapshot of MySQL schema, version 5
+ */
+export const mySqlSnapshot = (source: SnapshotSource) => {
+	const { ir } = source;
+	const tables = tablesByVariable(ir);
+
+	// Column primary keys are written by drizzle-kit as composite ones
+	const columnSnapshots = (columns: readonly ColumnIR[]) =>
+		Object.fromEntries(
+			emittedColumns(columns, source).map(({ column, builder }) => {
+				const sqlType = mySqlType(column, builder, source);
+
+				return [column.dbName, {
+					name: column.dbName,
+					type: sqlType,
+					primaryKey: false,
+					notNull: column.isRequired || column.isPrimaryKey,
+					autoincrement: column.default?.kind === 'autoincrement',
+					default: mySqlDefault(column, builder, sqlType),
+				}];
+			}),
+		);
+
+	const internalIndexes: Record<string, { columns: Record<string, { isExpression: boolean }> }> = {};
+
+	return {
+		version: '5',
+		dialect: 'mysql',
+		tables: Object.fromEntries(ir.tables.map((table) => {
+			const columns = emittedColumns(table.columns, source).map(({ column }) => column);
+
+			return [table.dbName, {
+				name: table.dbName,
+				columns: columnSnapshots(table.columns),
+				indexes: Object.fromEntries([
+					...table.uniqueIndexes.map((index) => [index.name, {
+						name: index.name,
+						columns: columnDbNames(table, index.columns),
+						isUnique: true,
+					}]),
+					// FULLTEXT indexes aren't generated
+					...table.indexes.filter((index) => index.type !== 'fulltext').map((index) => [index.name, {
+						name: index.name,
+						columns: index.columns.map((f) => {
+							const [dbName] = columnDbNames(table, [f.key]);
+							if (f.length === undefined && f.sortOrder !== 'desc') return dbName;
+
+							const expression = `\`${dbName}\`${f.length === undefined ? '' : `(${f.length})`}${
+								f.sortOrder === 'desc' ? ' desc' : ''
+							}`;
+							(internalIndexes[index.name] ??= { columns: {} }).columns[expression] = { isExpression: true };
+
+							return expression;
+						}),
+						isUnique: false,
+						using: index.algorithm === 'Hash' ? 'hash' : undefined,
+					}]),
+				]),
+				foreignKeys: Object.fromEntries(table.foreignKeys.map((fkey) => {
+					const foreignTable = tables.get(fkey.foreignTable)!;
+
+					return [fkey.name, {
+						name: fkey.name,
+						tableFrom: table.dbName,
+						tableTo: foreignTable.dbName,
+						columnsFrom: columnDbNames(table, fkey.columns),
+						columnsTo: columnDbNames(foreignTable, fkey.foreignColumns),
+						onDelete: fkey.onDelete ?? 'no action',
+						onUpdate: fkey.onUpdate ?? 'no action',
+					}];
+				})),
+				compositePrimaryKeys: Object.fromEntries([
+					...columns.filter((column) => column.isPrimaryKey).map((column) => {
+						const name = `${table.dbName}_${column.dbName}`;
+
+						return [name, { name, columns: [column.dbName] }];
+					}),
+					...(table.primaryKey
+						? [[table.primaryKey.name, {
+							name: table.primaryKey.name,
+							columns: columnDbNames(table, table.primaryKey.columns),
+						}]]
+						: []),
+				]),
+				uniqueConstraints: Object.fromEntries(
+					columns.filter((column) => column.isUnique).map((column) => {
+						const name = `${table.dbName}_${column.dbName}_unique`;
+
+						return [name, { name, columns: [column.dbName] }];
+					}),
+				),
+				checkConstraint: {},
+			}];
+		})),
+		views: Object.fromEntries(ir.views.map((view) => [view.dbName, {
+			columns: columnSnapshots(view.columns),
+			name: view.dbName,
+			isExisting: true,
+			algorithm: 'undefined',
+			sqlSecurity: 'definer',
+		}])),
+		_meta: { tables: {}, columns: {} },
+		internal: { tables: {}, indexes: internalIndexes },
+	};
+};
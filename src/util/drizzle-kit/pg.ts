@@ -0,0 +1,264 @@
+import type { ColumnBuilder } from '@/util/column-builder';
+import { prismaToPgOperatorClass } from '@/util/pg-operator-class';
+import type { ColumnIR, DefaultIR } from '@/util/schema-ir';
+import type { SequenceOptions } from '@/util/sequences';
+import {
+	columnDbNames,
+	customSqlType,
+	emittedColumns,
+	escapeSingleQuotes,
+	type SnapshotSource,
+	tablesByVariable,
+} from './common';
+
+const serialTypes = ['serial', 'smallserial', 'bigserial'];
+
+const pgSqlType = (column: ColumnIR, builder: ColumnBuilder, source: SnapshotSource) => {
+	const { name, options: { length, precision, scale, withTimezone, mode } = {} } = builder;
+	const timezone = withTimezone === true ? ' with time zone' : '';
+
+	if (column.enum && !column.directives.type) return column.enum.dbName;
+
+	switch (name) {
+		case 'doublePrecision':
+			return 'double precision';
+		case 'char':
+		case 'varchar':
+			return length === undefined ? name : `${name}(${length})`;
+		case 'decimal':
+			return precision === undefined
+				? 'numeric'
+				: scale === undefined
+				? `numeric(${precision})`
+				: `numeric(${precision}, ${scale})`;
+		case 'timestamp':
+			// Drizzle ORM separates precision with a space only in `date` mode
+			return `timestamp${
+				precision === undefined ? '' : mode === 'string' ? `(${precision})` : ` (${precision})`
+			}${timezone}`;
+		case 'time':
+			return `time${precision === undefined ? '' : `(${precision})`}${timezone}`;
+		default:
+			return customSqlType(builder, source) ?? name;
+	}
+};
+
+const arrayValue = (value: unknown, sqlType: string): string => {
+	if (typeof value === 'number' || typeof value === 'bigint') return value.toString();
+	if (typeof value === 'boolean') return value ? 'true' : 'false';
+	if (value instanceof Date) {
+		if (sqlType === 'date') return `"${value.toISOString().split('T')[0]}"`;
+		if (sqlType === 'timestamp') return `"${value.toISOString().replace('T', ' ').slice(0, 23)}"`;
+
+		return `"${value.toISOString()}"`;
+	}
+	if (typeof value === 'object') return `"${JSON.stringify(value).replace(/"/g, '\\"')}"`;
+
+	return `"${value}"`;
+};
+
+// Defaults are written the way drizzle-kit serializes `.default(...)` values of columns
+const pgDefault = (defVal: DefaultIR | undefined, sqlType: string) => {
+	const lowered = sqlType.toLowerCase();
+
+	switch (defVal?.kind) {
+		case 'value': {
+			const { value } = defVal;
+			if (typeof value === 'string') return `'${escapeSingleQuotes(value)}'`;
+			if (lowered === 'jsonb' || lowered === 'json') return `'${JSON.stringify(value)}'::${lowered}`;
+			if (value instanceof Date) {
+				if (lowered === 'date') return `'${value.toISOString().split('T')[0]}'`;
+				if (lowered === 'timestamp') return `'${value.toISOString().replace('T', ' ').slice(0, 23)}'`;
+
+				return `'${value.toISOString()}'`;
+			}
+			// JSON can't hold bigints, written as numbers to SQL
+			if (typeof value === 'bigint') return value.toString();
+
+			// Buffers are written as is, serialized to JSON
+			return value;
+		}
+		case 'list': {
+			const baseType = lowered.split('[')[0]!;
+			return `'{${defVal.values.map((e) => arrayValue(e, baseType)).join(',')}}'`;
+		}
+		case 'now':
+			return 'now()';
+		case 'sql':
+			return defVal.sql;
+		case 'autoincrement':
+			// Serial types have no default, CockroachDB emulates them with `unique_rowid()`
+			return serialTypes.includes(sqlType) ? undefined : 'unique_rowid()';
+		default:
+			return undefined;
+	}
+};
+
+const identity = (
+	table: string,
+	schema: string | undefined,
+	column: string,
+	sqlType: string,
+	options: SequenceOptions,
+) => {
+	const increment = options.increment ?? '1';
+	const descending = parseFloat(increment) < 0;
+	// drizzle-kit compares class of the column to SQL type here, so descending identities always get smallint minimum
+	const minValue = options.minValue ?? (descending ? '-32768' : '1');
+	const maxValue = options.maxValue
+		?? (descending
+			? '-1'
+			: sqlType === 'integer'
+			? '2147483647'
+			: sqlType === 'bigint'
+			? '9223372036854775807'
+			: '32767');
+
+	return {
+		type: 'byDefault',
+		name: `${table}_${column}_seq`,
+		schema: schema ?? 'public',
+		increment,
+		startWith: options.start ?? (descending ? maxValue : minValue),
+		minValue,
+		maxValue,
+		cache: options.cache ?? '1',
+		cycle: false,
+	};
+};
+
+/**
+ * Builds snapshot of PostgreSQL schema, version 7
+ */
+export const pgSnapshot = (source: SnapshotSource) => {
+	const { ir } = source;
+	const tables = tablesByVariable(ir);
+
+	// Tables, views and enums are only declared in schemas of datasource, other than `public`
+	const pgSchema = (schema: string | undefined) =>
+		schema !== undefined && schema !== 'public' && ir.schemas.includes(schema) ? schema : undefined;
+
+	const columnSnapshots = (columns: readonly ColumnIR[], table: string, schema: string | undefined) =>
+		Object.fromEntries(
+			emittedColumns(columns, source).map(({ column, builder }) => {
+				const baseType = pgSqlType(column, builder, source);
+				const sqlType = column.isList ? `${baseType}[]` : baseType;
+				const sequence = column.default?.kind === 'sequence' ? column.default.options : undefined;
+
+				return [column.dbName, {
+					name: column.dbName,
+					type: sqlType,
+					typeSchema: column.enum && !column.directives.type ? pgSchema(column.enum.schema) ?? 'public' : undefined,
+					primaryKey: column.isPrimaryKey,
+					// Serial and identity columns are always non-nullable
+					notNull: column.isRequired || column.isPrimaryKey || serialTypes.includes(sqlType) || !!sequence,
+					identity: sequence && identity(table, schema, column.dbName, sqlType, sequence),
+					default: pgDefault(column.default, sqlType),
+				}];
+			}),
+		);
+
+	return {
+		version: '7',
+		dialect: 'postgresql',
+		tables: Object.fromEntries(ir.tables.map((table) => {
+			const schema = pgSchema(table.schema);
+
+			return [`${schema ?? 'public'}.${table.dbName}`, {
+				name: table.dbName,
+				schema: schema ?? '',
+				columns: columnSnapshots(table.columns, table.dbName, schema),
+				indexes: Object.fromEntries([
+					...table.uniqueIndexes.map((index) => [index.name, {
+						name: index.name,
+						columns: columnDbNames(table, index.columns).map((expression) => ({
+							expression,
+							isExpression: false,
+							asc: true,
+							nulls: 'last',
+						})),
+						isUnique: true,
+						concurrently: false,
+						method: 'btree',
+						with: {},
+					}]),
+					...table.indexes.map((index) => [index.name, {
+						name: index.name,
+						columns: index.columns.map((f) => ({
+							expression: columnDbNames(table, [f.key])[0],
+							isExpression: false,
+							asc: f.sortOrder !== 'desc',
+							nulls: 'last',
+							opclass: f.operatorClass && prismaToPgOperatorClass(f.operatorClass),
+						})),
+						isUnique: false,
+						concurrently: false,
+						method: index.algorithm && index.algorithm !== 'BTree' ? index.algorithm.toLowerCase() : 'btree',
+						with: {},
+					}]),
+				]),
+				foreignKeys: Object.fromEntries(table.foreignKeys.map((fkey) => {
+					const foreignTable = tables.get(fkey.foreignTable)!;
+
+					return [fkey.name, {
+						name: fkey.name,
+						tableFrom: table.dbName,
+						tableTo: foreignTable.dbName,
+						// drizzle-kit only sets schema of tables declared in other schemas, and compares missing one as `public`
+						schemaTo: pgSchema(foreignTable.schema),
+						columnsFrom: columnDbNames(table, fkey.columns),
+						columnsTo: columnDbNames(foreignTable, fkey.foreignColumns),
+						// Foreign keys of Drizzle ORM default to `no action`, which generator omits
+						onDelete: fkey.onDelete ?? 'no action',
+						onUpdate: fkey.onUpdate ?? 'no action',
+					}];
+				})),
+				compositePrimaryKeys: table.primaryKey
+					? {
+						[table.primaryKey.name]: {
+							name: table.primaryKey.name,
+							columns: columnDbNames(table, table.primaryKey.columns),
+						},
+					}
+					: {},
+				uniqueConstraints: Object.fromEntries(
+					emittedColumns(table.columns, source).filter(({ column }) => column.isUnique).map(({ column }) => {
+						const name = `${table.dbName}_${column.dbName}_unique`;
+
+						return [name, { name, nullsNotDistinct: false, columns: [column.dbName] }];
+					}),
+				),
+				policies: {},
+				checkConstraints: {},
+				isRLSEnabled: false,
+			}];
+		})),
+		enums: Object.fromEntries(
+			ir.enums.filter((e) => e.values.length).map((schemaEnum) => {
+				const schema = pgSchema(schemaEnum.schema) ?? 'public';
+
+				return [`${schema}.${schemaEnum.dbName}`, {
+					name: schemaEnum.dbName,
+					schema,
+					values: schemaEnum.values.map((e) => e.dbName),
+				}];
+			}),
+		),
+		schemas: Object.fromEntries(ir.schemas.filter((e) => e !== 'public').map((e) => [e, e])),
+		sequences: {},
+		roles: {},
+		policies: {},
+		views: Object.fromEntries(ir.views.map((view) => {
+			const schema = pgSchema(view.schema);
+
+			return [`${schema ?? 'public'}.${view.dbName}`, {
+				columns: columnSnapshots(view.columns, view.dbName, schema),
+				name: view.dbName,
+				schema: schema ?? 'public',
+				isExisting: true,
+				materialized: false,
+			}];
+		})),
+		_meta: { schemas: {}, tables: {}, columns: {} },
+	};
+};
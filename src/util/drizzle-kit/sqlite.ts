@@ -0,0 +1,127 @@
+import type { ColumnBuilder } from '@/util/column-builder';
+import type { ColumnIR } from '@/util/schema-ir';
+import {
+	columnDbNames,
+	customSqlType,
+	emittedColumns,
+	escapeSingleQuotes,
+	type SnapshotSource,
+	tablesByVariable,
+} from './common';
+
+const sqliteType = (builder: ColumnBuilder, source: SnapshotSource) =>
+	builder.name === 'int' || builder.name === 'integer' ? 'integer' : customSqlType(builder, source) ?? builder.name;
+
+const sqliteValue = (value: unknown) => {
+	if (typeof value === 'string') return `'${escapeSingleQuotes(value)}'`;
+	// JSON can't hold bigints, written as numbers to SQL
+	if (typeof value === 'bigint') return value.toString();
+
+	return typeof value === 'object' ? `'${JSON.stringify(value)}'` : value;
+};
+
+// Defaults are written the way drizzle-kit serializes `.default(...)` values of columns
+const sqliteDefault = (column: ColumnIR) => {
+	const defVal = column.default;
+
+	switch (defVal?.kind) {
+		case 'value':
+			return sqliteValue(defVal.value);
+		case 'sql':
+			return defVal.sql;
+		default:
+			return undefined;
+	}
+};
+
+/**
+ * Builds snapshot of SQLite schema, version 6
+ */
+export const sqliteSnapshot = (source: SnapshotSource) => {
+	const { ir } = source;
+	const tables = tablesByVariable(ir);
+
+	// Single column primary keys are written by drizzle-kit as column ones
+	const columnSnapshots = (columns: readonly ColumnIR[], primaryKey: readonly string[] = []) =>
+		Object.fromEntries(
+			emittedColumns(columns, source).map(({ column, builder }) => {
+				const isPrimaryKey = column.isPrimaryKey || (primaryKey.length === 1 && primaryKey[0] === column.key);
+
+				return [column.dbName, {
+					name: column.dbName,
+					type: sqliteType(builder, source),
+					primaryKey: isPrimaryKey,
+					notNull: column.isRequired || isPrimaryKey,
+					autoincrement: false,
+					default: sqliteDefault(column),
+				}];
+			}),
+		);
+
+	const internalIndexes: Record<string, { columns: Record<string, { isExpression: boolean }> }> = {};
+
+	return {
+		version: '6',
+		dialect: 'sqlite',
+		tables: Object.fromEntries(ir.tables.map((table) => [table.dbName, {
+			name: table.dbName,
+			columns: columnSnapshots(table.columns, table.primaryKey?.columns),
+			indexes: Object.fromEntries([
+				...emittedColumns(table.columns, source).filter(({ column }) => column.isUnique).map(({ column }) => {
+					const name = `${table.dbName}_${column.dbName}_unique`;
+
+					return [name, { name, columns: [column.dbName], isUnique: true }];
+				}),
+				...table.uniqueIndexes.map((index) => [index.name, {
+					name: index.name,
+					columns: columnDbNames(table, index.columns),
+					isUnique: true,
+				}]),
+				...table.indexes.map((index) => [index.name, {
+					name: index.name,
+					columns: index.columns.map((f) => {
+						const [dbName] = columnDbNames(table, [f.key]);
+						if (f.sortOrder !== 'desc') return dbName;
+
+						const expression = `"${dbName}" desc`;
+						(internalIndexes[index.name] ??= { columns: {} }).columns[expression] = { isExpression: true };
+
+						return expression;
+					}),
+					isUnique: false,
+				}]),
+			]),
+			foreignKeys: Object.fromEntries(table.foreignKeys.map((fkey) => {
+				const foreignTable = tables.get(fkey.foreignTable)!;
+
+				return [fkey.name, {
+					name: fkey.name,
+					tableFrom: table.dbName,
+					tableTo: foreignTable.dbName,
+					columnsFrom: columnDbNames(table, fkey.columns),
+					columnsTo: columnDbNames(foreignTable, fkey.foreignColumns),
+					onDelete: fkey.onDelete ?? 'no action',
+					onUpdate: fkey.onUpdate ?? 'no action',
+				}];
+			})),
+			compositePrimaryKeys: table.primaryKey && table.primaryKey.columns.length > 1
+				? {
+					[table.primaryKey.name]: {
+						columns: columnDbNames(table, table.primaryKey.columns),
+						name: table.primaryKey.name,
+					},
+				}
+				: {},
+			uniqueConstraints: {},
+			checkConstraints: {},
+		}])),
+		views: Object.fromEntries(ir.views.map((view) => [view.dbName, {
+			columns: columnSnapshots(view.columns),
+			name: view.dbName,
+			isExisting: true,
+		}])),
+		enums: {},
+		_meta: { tables: {}, columns: {} },
+		internal: { indexes: internalIndexes },
+	};
+};
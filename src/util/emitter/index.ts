@@ -0,0 +1,347 @@
+import type { Config } from '@/config';
+import { type ColumnBuilder, columnBuilderCode } from '@/util/column-builder';
+import { type CustomType, customTypeDefinition } from '@/util/custom-type';
+import { applyColumnDirectives, type ColumnModes, withoutJsonType } from '@/util/directives';
+import { type Dialect, drizzleKitSnapshot } from '@/util/drizzle-kit';
+import { s } from '@/util/escape';
+import { enumTypeDeclaration, tableTypeDeclarations } from '@/util/inferred-types';
+import { jsDoc } from '@/util/jsdoc';
+import { type Declaration, type GeneratedSchema, mergeImports } from '@/util/schema-files';
+import type { ColumnIR, EnumIR, IndexIR, SchemaIR, TableIR, ViewIR } from '@/util/schema-ir';
+import type { SequenceOptions } from '@/util/sequences';
+
+/**
+ * State of a single generation run, shared by dialect emitter and common emission
+ */
+export type EmitterContext = {
+	config: Config;
+	/** Names imported from dialect module of `drizzle-orm` by the declaration being emitted */
+	dialectImports: Set<string>;
+	/** Names imported from `drizzle-orm` by the declaration being emitted */
+	drizzleImports: Set<string>;
+	/** Names of other declarations referenced by the declaration being emitted */
+	references: Set<string>;
+	/** Custom column types by their names */
+	customTypes: Map<string, CustomType>;
+};
+
+/**
+ * Dialect specific parts of generated schema, common parts are emitted by `emitSchema`
+ */
+export type DialectEmitter = {
+	/** Dialect module of `drizzle-orm`: `pg-core`, `mysql-core`, `sqlite-core` */
+	module: string;
+	/** Dialect of drizzle-kit snapshots */
+	dialect: Dialect;
+	/** Declarations emitted before enums, e.g. database schemas, with their imports and references */
+	declarations?: Declaration[];
+	/** Builder of enum declarations, enums are only generated as types without it */
+	enumBuilder?: (schemaEnum: EnumIR) => string;
+	tableBuilder: (table: TableIR) => string;
+	viewBuilder: (view: ViewIR) => string;
+	/** @returns column builder, or `undefined` if column type isn't supported */
+	columnType: (column: ColumnIR) => ColumnBuilder | undefined;
+	/** Modes of generated column builders, which `@drizzle.mode` can set */
+	modes: ColumnModes;
+	/** Writes value of default, or of an element of a list default, if it isn't written as a plain value */
+	value?: (column: ColumnIR, value: unknown) => string | undefined;
+	/** Modifier of `@default(now())`, values of `updatedAt` are set by the client without it */
+	now?: (column: ColumnIR) => string;
+	/** Modifier of `@default(autoincrement())`, if it isn't handled by column type */
+	autoincrement?: (column: ColumnIR) => string;
+	/** Modifier of `@default(sequence())` */
+	sequence?: (column: ColumnIR, options: SequenceOptions) => string;
+	/** Value set by `@updatedAt` */
+	updatedAt: (column: ColumnIR) => string;
+	index: (index: IndexIR, table: TableIR) => string;
+};
+
+export type CreateDialectEmitter = (ir: SchemaIR, context: EmitterContext) => DialectEmitter;
+
+// Values of defaults are converted to column types by schema IR
+const valueCode = (value: unknown): string => {
+	if (typeof value === 'bigint') return `BigInt(${JSON.stringify(value.toString())})`;
+	if (value instanceof Date) return `new Date(${JSON.stringify(value.toISOString())})`;
+	if (Buffer.isBuffer(value)) return `Buffer.from(${JSON.stringify(value.toString('base64'))}, 'base64')`;
+
+	return JSON.stringify(value);
+};
+
+/**
+ * Emits declarations of the schema, writing dialect specific parts with emitter created for this run
+ */
+export const emitSchema = (ir: SchemaIR, createEmitter: CreateDialectEmitter, config: Config): GeneratedSchema => {
+	const context: EmitterContext = {
+		config,
+		dialectImports: new Set(),
+		drizzleImports: new Set(),
+		references: new Set(),
+		customTypes: new Map(),
+	};
+	const runtimeImports = new Map<string, Set<string>>();
+	const addRuntimeImport = (from: string, names: readonly string[]) =>
+		runtimeImports.set(from, new Set([...(runtimeImports.get(from) ?? []), ...names]));
+
+	const { naming } = ir;
+	const emitter = createEmitter(ir, context);
+	const { dialectImports, drizzleImports, references } = context;
+	const drizzleModule = `${config.drizzleImportPath}/${emitter.module}`;
+
+	// Writes code of a declaration, recording names it imports and references while it's emitted
+	const recorded = (emit: () => string): Pick<Declaration, 'code' | 'imports' | 'references'> => {
+		for (const names of [dialectImports, drizzleImports, references, runtimeImports]) names.clear();
+
+		const code = emit();
+
+		return {
+			code,
+			imports: [
+				{ from: config.drizzleImportPath, names: Array.from(drizzleImports) },
+				{ from: drizzleModule, names: Array.from(dialectImports) },
+				...Array.from(runtimeImports, ([from, names]) => ({ from, names: Array.from(names) })),
+			].filter(({ names }) => names.length),
+			references: Array.from(references),
+		};
+	};
+
+	// Column builders, as emitted after directives
+	const columnBuilders = new Map<ColumnIR, ColumnBuilder>();
+
+	const defaultValue = (column: ColumnIR, value: unknown) => emitter.value?.(column, value) ?? valueCode(value);
+
+	// Values of these defaults are written in code, rather than in SQL
+	const clientDefaults = new Set(['value', 'list', 'client']);
+
+	const emitColumn = (column: ColumnIR, owner: string): string | undefined => {
+		const colDbName = s(column.dbName);
+
+		// Builders of `@drizzle.type` replace generated ones, so these aren't emitted
+		const directed = applyColumnDirectives(
+			column.directives.type ? undefined : emitter.columnType(column),
+			column.directives,
+			config,
+			`${owner}.${column.name}`,
+			emitter.modes,
+			column.isUpdatedAt || clientDefaults.has(column.default?.kind ?? '')
+				|| (column.default?.kind === 'now' && !emitter.now),
+		);
+		if (!directed.builder) return undefined;
+		columnBuilders.set(column, directed.builder);
+		for (const { from, names } of directed.imports) addRuntimeImport(from, names);
+
+		const documentation = column.type === 'Json' ? withoutJsonType(column.documentation) : column.documentation;
+		let code = `${jsDoc(documentation, '\t')}\t${column.key}: ${columnBuilderCode(directed.builder, colDbName)}`;
+
+		if (column.directives.$type) code = code + `.$type<${column.directives.$type}>()`;
+
+		if (column.isList) code = code + `.array()`;
+		if (column.isRequired) code = code + `.notNull()`;
+		if (column.isPrimaryKey) code = code + `.primaryKey()`;
+		if (column.isUnique) code = code + `.unique()`;
+
+		const defVal = column.default;
+		switch (defVal?.kind) {
+			case 'value':
+				code = code + `.default(${defaultValue(column, defVal.value)})`;
+				break;
+			case 'list':
+				code = code + `.default([${defVal.values.map((e) => defaultValue(column, e)).join(', ')}])`;
+				break;
+			case 'now':
+				code = code + (emitter.now?.(column) ?? `.$defaultFn(() => ${emitter.updatedAt(column)})`);
+				break;
+			case 'autoincrement':
+				code = code + (emitter.autoincrement?.(column) ?? '');
+				break;
+			case 'sequence':
+				code = code + (emitter.sequence?.(column, defVal.options) ?? '');
+				break;
+			case 'sql':
+				drizzleImports.add('sql');
+				code = code + `.default(sql\`${s(defVal.sql, '`')}\`)`;
+				break;
+			case 'client':
+				if (defVal.import) addRuntimeImport(defVal.import.from, defVal.import.names);
+				code = code + `.$defaultFn(() => ${defVal.expression})`;
+				break;
+		}
+
+		if (column.isUpdatedAt) code = code + `.$onUpdate(() => ${emitter.updatedAt(column)})`;
+
+		return code;
+	};
+
+	const emitColumns = (columns: ColumnIR[], owner: string) =>
+		columns.map((column) => emitColumn(column, owner)).filter((e) => e !== undefined).join(',\n');
+
+	const enums: Declaration[] = [];
+
+	for (const schemaEnum of ir.enums) {
+		if (!schemaEnum.values.length) continue;
+
+		if (emitter.enumBuilder) {
+			const { enumBuilder } = emitter;
+
+			enums.push({
+				kind: 'enum',
+				name: schemaEnum.variable,
+				source: schemaEnum.name,
+				...recorded(() =>
+					`${jsDoc(schemaEnum.documentation)}export const ${schemaEnum.variable} = ${enumBuilder(schemaEnum)}('${
+						s(schemaEnum.dbName)
+					}', [${schemaEnum.values.map((e) => `'${e.dbName}'`).join(', ')}])`
+				),
+			});
+		}
+		if (config.inferTypes) enums.push(enumTypeDeclaration(schemaEnum, naming));
+	}
+
+	const emitTable = (table: TableIR) => {
+		const tableVar = table.variable;
+		const columns = emitColumns(table.columns, table.name);
+
+		const indexes: string[] = [];
+
+		if (table.foreignKeys.length) dialectImports.add('foreignKey');
+		indexes.push(...table.foreignKeys.map((fkey) => {
+			const fkeyName = s(fkey.name);
+			const actions = ([['onDelete', fkey.onDelete], ['onUpdate', fkey.onUpdate]] as const)
+				.filter(([, action]) => action !== undefined)
+				.map(([method, action]) => `\n\t\t.${method}('${action}')`)
+				.join('');
+
+			references.add(fkey.foreignTable);
+
+			return `\t'${fkeyName}': foreignKey({\n\t\tname: '${fkeyName}',\n\t\tcolumns: [${
+				fkey.columns.map((e) => `${tableVar}.${e}`).join(', ')
+			}],\n\t\tforeignColumns: [${
+				fkey.foreignColumns.map((e) => `${fkey.foreignTable}.${e}`).join(', ')
+			}]\n\t})${actions}`;
+		}));
+
+		if (table.uniqueIndexes.length) dialectImports.add('uniqueIndex');
+		indexes.push(
+			...table.uniqueIndexes.map((idx) =>
+				`\t'${s(idx.key)}': uniqueIndex('${s(idx.name)}')\n\t\t.on(${
+					idx.columns.map((e) => `${tableVar}.${e}`).join(', ')
+				})`
+			),
+		);
+
+		indexes.push(...table.indexes.map((idx) => emitter.index(idx, table)));
+
+		if (table.primaryKey) {
+			dialectImports.add('primaryKey');
+
+			const pkName = s(table.primaryKey.name);
+
+			indexes.push(
+				`\t'${pkName}': primaryKey({\n\t\tname: '${pkName}',\n\t\tcolumns: [${
+					table.primaryKey.columns.map((e) => `${tableVar}.${e}`).join(', ')
+				}]\n\t})`,
+			);
+		}
+
+		const tableBuilder = emitter.tableBuilder(table);
+
+		return `${jsDoc(table.documentation)}export const ${tableVar} = ${tableBuilder}('${
+			s(table.dbName)
+		}', {\n${columns}\n}${indexes.length ? `, (${tableVar}) => ({\n${indexes.join(',\n')}\n})` : ''});`;
+	};
+
+	const emitRelations = (table: TableIR, relationsVar: string) => {
+		const tableVar = table.variable;
+
+		drizzleImports.add('relations');
+		references.add(tableVar);
+
+		const relationArgs = new Set<string>();
+		const rqbFields = table.relations.map((relation) => {
+			relationArgs.add(relation.kind);
+			references.add(relation.table);
+
+			if (relation.relationName === undefined) return `\t${relation.key}: one(${relation.table})`;
+
+			const relName = s(relation.relationName);
+
+			return `\t${relation.key}: ${
+				relation.fields
+					? `one(${relation.table}, {\n\t\trelationName: '${relName}',\n\t\tfields: [${
+						relation.fields.map((e) => `${tableVar}.${e}`).join(', ')
+					}],\n\t\treferences: [${relation.references!.map((e) => `${relation.table}.${e}`).join(', ')}]\n\t})`
+					: `many(${relation.table}, {\n\t\trelationName: '${relName}'\n\t})`
+			}`;
+		}).join(',\n');
+
+		const argString = Array.from(relationArgs.values()).join(', ');
+
+		return `export const ${relationsVar} = relations(${tableVar}, ({ ${argString} }) => ({\n${rqbFields}\n}));`;
+	};
+
+	const tables: Declaration[] = [];
+	const rqb: Declaration[] = [];
+
+	for (const table of ir.tables) {
+		tables.push({ kind: 'table', name: table.variable, source: table.name, ...recorded(() => emitTable(table)) });
+		if (config.inferTypes) tables.push(...tableTypeDeclarations(table.name, naming));
+
+		if (!table.relations.length) continue;
+
+		const relationsVar = naming.relations(table.name);
+
+		rqb.push({
+			kind: 'relations',
+			name: relationsVar,
+			source: table.name,
+			...recorded(() => emitRelations(table, relationsVar)),
+		});
+	}
+
+	const views = ir.views.map((view): Declaration => ({
+		kind: 'view',
+		name: view.variable,
+		source: view.name,
+		...recorded(() => {
+			const columns = emitColumns(view.columns, view.name);
+			const viewBuilder = emitter.viewBuilder(view);
+
+			return `${jsDoc(view.documentation)}export const ${view.variable} = ${viewBuilder}('${
+				s(view.dbName)
+			}', {\n${columns}\n}).existing();`;
+		}),
+	}));
+
+	const declarations: Declaration[] = [
+		...Array.from(
+			context.customTypes,
+			([name, customType]): Declaration => ({
+				kind: 'customType',
+				name,
+				source: name,
+				code: customTypeDefinition(customType),
+				imports: [{ from: drizzleModule, names: ['customType'] }],
+				references: [],
+			}),
+		),
+		...(emitter.declarations ?? []),
+		...enums,
+		...tables,
+		...views,
+		...rqb,
+	];
+
+	return {
+		// `drizzle-orm` modules are imported first
+		imports: mergeImports([
+			{ from: config.drizzleImportPath, names: [] },
+			{ from: drizzleModule, names: [] },
+			...declarations.flatMap((e) => e.imports),
+		]),
+		declarations,
+		tables: ir.tables.map((table) => ({ ...table, columns: table.columns.filter((e) => columnBuilders.has(e)) })),
+		naming,
+		drizzleKitSnapshot: config.drizzleKitOut
+			? drizzleKitSnapshot(emitter.dialect, { ir, columnBuilders, customTypes: context.customTypes })
+			: undefined,
+	};
+};
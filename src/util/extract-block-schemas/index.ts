@@ -0,0 +1,19 @@
+const blockRegex = /^[ \t]*(model|view|enum)[ \t]+(\w+)[ \t]*\{([^]*?)^[ \t]*\}/gm;
+const schemaRegex = /^[ \t]*@@schema\(\s*"([^"]*)"\s*\)/m;
+
+/**
+ * DMMF doesn't expose `@@schema` for enums (and for models in older Prisma versions),
+ * so it's read directly from the datamodel
+ *
+ * @returns map of model, view and enum names to their database schemas
+ */
+export const extractBlockSchemas = (datamodel: string): Map<string, string> => {
+	const schemas = new Map<string, string>();
+
+	for (const [, , name, body] of datamodel.matchAll(blockRegex)) {
+		const schema = body!.match(schemaRegex)?.[1];
+		if (schema !== undefined) schemas.set(name!, schema);
+	}
+
+	return schemas;
+};
@@ -1,4 +1,5 @@
-import type { DMMF } from '@prisma/generator-helper';
+import type { Field, Index } from '@/util/dmmf';
+import { type DMMF, GeneratorError } from '@prisma/generator-helper';
 import { UnReadonlyDeep } from '../un-readonly-deep';
 
 /*
@@ -11,14 +12,14 @@ where it was heavily borrowed from prisma-dbml-generator
 https://github.com/notiz-dev/prisma-dbml-generator/blob/752f89cf40257a9698913294b38843ac742f8345/src/generator/many-to-many-tables.ts
 */
 
-const sorted = <T>(list: T[], sortFunction?: (a: T, b: T) => number) => {
-	const newList = [...list];
-	newList.sort(sortFunction);
-	return newList;
+type ManyToManyField = {
+	/** Name of the model the relation field is declared on */
+	model: string;
+	field: UnReadonlyDeep<Field>;
 };
 
 const generateModels = (
-	manyToManyFields: DMMF.Field[],
+	manyToManyFields: ManyToManyField[],
 	models: DMMF.Model[],
 	manyToManyTables: DMMF.Model[] = [],
 ): DMMF.Model[] => {
@@ -27,144 +28,132 @@ const generateModels = (
 		return manyToManyTables;
 	}
 
-	const manySecond = manyToManyFields.find((field) => field.relationName === manyFirst.relationName);
+	const manySecond = manyToManyFields.find(({ field }) => field.relationName === manyFirst.field.relationName);
 
 	if (!manySecond) {
-		return manyToManyTables;
+		return generateModels(manyToManyFields, models, manyToManyTables);
 	}
 
+	const relationName = manyFirst.field.relationName!;
+	const tableDbName = `_${relationName}`;
+
+	const fields = generateJoinFields([manyFirst, manySecond], relationName, models);
+
 	manyToManyTables.push({
-		dbName: `_${manyFirst.relationName}`,
-		name: manyFirst.relationName || '',
+		dbName: tableDbName,
+		name: relationName,
+		// Schema is resolved from models of the relation
+		schema: null,
 		primaryKey: null,
 		uniqueFields: [],
-		uniqueIndexes: [],
-		fields: generateJoinFields([manyFirst, manySecond], models),
+		uniqueIndexes: [{
+			name: `${tableDbName}_AB_unique`,
+			fields: fields.filter((f) => f.kind === 'scalar').map((f) => f.name),
+		}],
+		fields,
 	});
 
 	return generateModels(
-		manyToManyFields.filter((field) => field.relationName !== manyFirst.relationName),
+		manyToManyFields.filter((e) => e !== manySecond),
 		models,
 		manyToManyTables,
 	);
 };
 
-const generateJoinFields = (fields: [DMMF.Field, DMMF.Field], models: DMMF.Model[]): DMMF.Field[] => {
-	const [A, B] = sorted(fields, (a, b) => a.type.localeCompare(b.type)) as UnReadonlyDeep<[DMMF.Field, DMMF.Field]>;
-
-	const aTableName = B.type;
-	const bTableName = A.type;
-
-	const manyTableName = `${A.type}To${B.type}`;
-
-	A.isList = true;
-	A.type = `${bTableName}To${aTableName}`;
-	A.relationName = `${aTableName}To${manyTableName}`;
-	A.relationFromFields = [];
-	A.relationToFields = [];
-
-	B.isList = true;
-	B.type = `${bTableName}To${aTableName}`;
-	B.relationName = `${bTableName}To${manyTableName}`;
-	A.relationFromFields = [];
-	A.relationToFields = [];
-
-	return [
-		{
-			name: `${aTableName}Id`,
-			dbName: 'A',
-			type: getJoinIdType(aTableName, models),
-			kind: 'scalar',
-			isRequired: true,
-			isList: false,
-			isUnique: false,
-			isId: false,
-			isReadOnly: true,
-			hasDefaultValue: false,
-		},
-		{
-			name: aTableName,
-			type: aTableName,
-			kind: 'object',
-			isRequired: true,
-			isList: false,
-			isUnique: false,
-			isId: false,
-			isReadOnly: true,
-			hasDefaultValue: false,
-			relationName: `${aTableName}To${manyTableName}`,
-			relationFromFields: [`${aTableName}Id`],
-			relationToFields: [getJoinIdName(aTableName, models)],
-		},
-		{
-			name: `${bTableName}Id`,
-			dbName: 'B',
-			type: getJoinIdType(bTableName, models),
-			kind: 'scalar',
-			isRequired: true,
-			isList: false,
-			isUnique: false,
-			isId: false,
-			isReadOnly: true,
-			hasDefaultValue: false,
-		},
-		{
-			name: bTableName,
-			type: bTableName,
-			kind: 'object',
-			isRequired: true,
-			isList: false,
-			isUnique: false,
-			isId: false,
-			isReadOnly: true,
-			hasDefaultValue: false,
-			relationName: `${bTableName}To${manyTableName}`,
-			relationFromFields: [`${bTableName}Id`],
-			relationToFields: [getJoinIdName(bTableName, models)],
-		},
-	];
+const generateJoinFields = (
+	fields: [ManyToManyField, ManyToManyField],
+	manyTableName: string,
+	models: DMMF.Model[],
+): Field[] => {
+	// Prisma stores ids of the alphabetically first model in column `A`, self-relations are ordered by field names
+	const [A, B] = [...fields].sort((a, b) => a.model.localeCompare(b.model) || a.field.name.localeCompare(b.field.name));
+	const isSelfRelation = A!.model === B!.model;
+
+	const [aJoin, bJoin] = ([[A!, 'A'], [B!, 'B']] as const).map(([{ model, field }, column]) => {
+		const objectName = isSelfRelation ? `${model}${column}` : model;
+		const relationName = `${objectName}To${manyTableName}`;
+
+		field.isList = true;
+		field.type = manyTableName;
+		field.relationName = relationName;
+		field.relationFromFields = [];
+		field.relationToFields = [];
+
+		const idField = getJoinIdField(model, models);
+
+		return [
+			{
+				name: `${objectName}Id`,
+				dbName: column,
+				type: idField.type,
+				nativeType: idField.nativeType,
+				kind: 'scalar',
+				isRequired: true,
+				isList: false,
+				isUnique: false,
+				isId: false,
+				isReadOnly: true,
+				hasDefaultValue: false,
+			},
+			{
+				name: objectName,
+				type: model,
+				kind: 'object',
+				isRequired: true,
+				isList: false,
+				isUnique: false,
+				isId: false,
+				isReadOnly: true,
+				hasDefaultValue: false,
+				relationName,
+				relationFromFields: [`${objectName}Id`],
+				relationToFields: [idField.name],
+				relationOnDelete: 'Cascade',
+			},
+		] satisfies Field[];
+	}) as [Field[], Field[]];
+
+	return [...aJoin, ...bJoin];
 };
 
-const getJoinIdType = (typeName: string, models: DMMF.Model[]): string => {
+const getJoinIdField = (typeName: string, models: DMMF.Model[]): Field => {
 	const joinedModel = models.find((m) => m.name === typeName);
 	if (!joinedModel) {
-		throw new Error('Could not find referenced model of many-to-many relation');
+		throw new GeneratorError(`Could not find referenced model ${typeName} of many-to-many relation`);
 	}
 
-	const idField = joinedModel.fields.find((f) => f.isId);
-	if (!idField) throw new Error('No ID field on referenced model of many-to-many relation');
-
-	return idField.type;
-};
-
-const getJoinIdName = (typeName: string, models: DMMF.Model[]): string => {
-	const joinedModel = models.find((m) => m.name === typeName);
-	if (!joinedModel) {
-		throw new Error('Could not find referenced model of many-to-many relation');
+	if (joinedModel.primaryKey) {
+		throw new GeneratorError(
+			`Model ${typeName} has a composite id, which is not supported by implicit many-to-many relations.\nUse an explicit relation model instead.`,
+		);
 	}
 
 	const idField = joinedModel.fields.find((f) => f.isId);
-	if (!idField) throw new Error('No ID field on referenced model of many-to-many relation');
+	if (!idField) throw new GeneratorError(`No id field on model ${typeName} referenced by many-to-many relation`);
 
-	return idField.name;
+	return idField;
 };
 
-const filterManyToManyRelationFields = (models: DMMF.Model[]) => {
-	const fields = models.flatMap((model) => model.fields);
-
-	const relationFields = fields.filter(
-		(field): field is DMMF.Field & Required<Pick<DMMF.Field, 'relationName'>> => !!field.relationName,
+const filterManyToManyRelationFields = (models: DMMF.Model[]): ManyToManyField[] => {
+	const fields = models.flatMap((model) =>
+		model.fields.map((field) => ({ model: model.name, field: field as UnReadonlyDeep<Field> }))
 	);
 
+	const relationFields = fields.filter(({ field }) => !!field.relationName);
+
 	const nonManyToManyRelationNames = relationFields
-		.filter((field) => !field.isList)
-		.map((field) => field.relationName);
+		.filter(({ field }) => !field.isList)
+		.map(({ field }) => field.relationName);
 
-	const notManyToMany = new Set<string>(nonManyToManyRelationNames);
+	const notManyToMany = new Set(nonManyToManyRelationNames);
 
-	return relationFields.filter((field) => !notManyToMany.has(field.relationName));
+	return relationFields.filter(({ field }) => !notManyToMany.has(field.relationName));
 };
 
+/**
+ * Builds models of join tables Prisma creates for implicit many-to-many relations,
+ * relation fields of `models` are rewritten to point to join tables
+ */
 export const extractManyToManyModels = (models: DMMF.Model[]): DMMF.Model[] => {
 	const manyToManyFields = filterManyToManyRelationFields(models);
 
@@ -172,3 +161,15 @@ export const extractManyToManyModels = (models: DMMF.Model[]): DMMF.Model[] => {
 
 	return generateModels(manyToManyFields, models, []);
 };
+
+/**
+ * Index on column `B` Prisma creates for each implicit many-to-many join table
+ */
+export const manyToManyIndexes = (manyToManyModels: DMMF.Model[]): Index[] =>
+	manyToManyModels.map((model) => ({
+		model: model.name,
+		type: 'normal',
+		isDefinedOnField: false,
+		dbName: `${model.dbName}_B_index`,
+		fields: [{ name: model.fields.find((f) => f.dbName === 'B')!.name }],
+	}));
@@ -0,0 +1,90 @@
+import { type Config, defaultConfig } from '@/config';
+import type { ColumnBuilder } from '@/util/column-builder';
+import type { CustomType } from '@/util/custom-type';
+import type { NativeType } from '@/util/dmmf';
+import { type CreateDialectEmitter, emitSchema, type EmitterContext } from '@/util/emitter';
+import type { GeneratedSchema } from '@/util/schema-files';
+import { buildSchemaIR, type ColumnIR } from '@/util/schema-ir';
+import type { SequenceOptions } from '@/util/sequences';
+import type { GeneratorOptions } from '@prisma/generator-helper';
+import { createPgEmitter, customTypeColumn, prismaToDrizzleType } from './pg';
+
+const customTypes = {
+	int4: { name: 'int4', data: 'number', sqlType: 'int4' },
+	singleChar: { name: 'singleChar', data: 'string', sqlType: '"char"' },
+} satisfies Record<string, CustomType>;
+
+// CockroachDB native types, named differently from the same PostgreSQL types
+const pgNativeTypes: Record<string, string> = {
+	Bool: 'Boolean',
+	Bytes: 'ByteA',
+	Int2: 'SmallInt',
+	Int8: 'BigInt',
+	Float4: 'Real',
+	Float8: 'DoublePrecision',
+};
+
+const cockroachToDrizzleType = (context: EmitterContext, column: ColumnIR): ColumnBuilder | undefined => {
+	const [name, args = []] = column.nativeType ?? [];
+
+	// `INT` of CockroachDB is INT8, while Prisma creates `Int` fields as INT4
+	if (column.type === 'Int' && (name === undefined || name === 'Int4')) {
+		// Identity is only available on built-in integer builders
+		if (column.default?.kind === 'sequence') {
+			context.dialectImports.add('integer');
+			return { name: 'integer' };
+		}
+
+		return customTypeColumn(context, customTypes.int4);
+	}
+
+	if (name === 'CatalogSingleChar') return customTypeColumn(context, customTypes.singleChar);
+
+	// `STRING(n)` is an alias of `VARCHAR(n)`, and `STRING` - of `TEXT`
+	const nativeType: NativeType | undefined = name === 'String'
+		? [args[0] === undefined ? 'Text' : 'VarChar', args]
+		: name === undefined
+		? undefined
+		: [pgNativeTypes[name] ?? name, args];
+
+	// Autoincrement is `unique_rowid()` default rather than serial type
+	return prismaToDrizzleType(context, column.type, undefined, nativeType);
+};
+
+const identityOptionNames: Record<keyof SequenceOptions, string> = {
+	start: 'startWith',
+	minValue: 'minValue',
+	maxValue: 'maxValue',
+	increment: 'increment',
+	cache: 'cache',
+};
+
+const identityOptions = (options: SequenceOptions) => {
+	const entries = Object.entries(options).map(([name, value]) =>
+		`${identityOptionNames[name as keyof SequenceOptions]}: ${
+			Number.isSafeInteger(Number(value)) ? value : JSON.stringify(value)
+		}`
+	);
+
+	return entries.length ? `{ ${entries.join(', ')} }` : '';
+};
+
+const createCockroachEmitter: CreateDialectEmitter = (ir, context) => {
+	const pgEmitter = createPgEmitter(ir, context);
+
+	return {
+		...pgEmitter,
+		columnType: (column) => column.enum ? pgEmitter.columnType(column) : cockroachToDrizzleType(context, column),
+		autoincrement: () => {
+			context.drizzleImports.add('sql');
+
+			return `.default(sql\`unique_rowid()\`)`;
+		},
+		// Prisma creates sequences as identity columns
+		sequence: (_, options) => `.generatedByDefaultAsIdentity(${identityOptions(options)})`,
+	};
+};
+
+export const generateCockroachSchema = (options: GeneratorOptions, config: Config = defaultConfig): GeneratedSchema =>
+	// Prisma limits CockroachDB identifiers to 63 characters, as it does PostgreSQL ones
+	emitSchema(buildSchemaIR(options, config, 63), createCockroachEmitter, config);
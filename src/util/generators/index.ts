@@ -1,3 +1,4 @@
+export { generateCockroachSchema } from './cockroach';
 export { generateMySqlSchema } from './mysql';
 export { generatePgSchema } from './pg';
 export { generateSQLiteSchema } from './sqlite';
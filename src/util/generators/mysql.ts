@@ -1,271 +1,260 @@
+import { type Config, defaultConfig } from '@/config';
+import type { ColumnBuilder } from '@/util/column-builder';
+import type { CustomType } from '@/util/custom-type';
+import type { ColumnModes } from '@/util/directives';
+import type { NativeType } from '@/util/dmmf';
+import { type CreateDialectEmitter, emitSchema, type EmitterContext } from '@/util/emitter';
 import { s } from '@/util/escape';
-import { extractManyToManyModels } from '@/util/extract-many-to-many-models';
-import { UnReadonlyDeep } from '@/util/un-readonly-deep';
-import { type DMMF, GeneratorError, type GeneratorOptions } from '@prisma/generator-helper';
+import type { GeneratedSchema } from '@/util/schema-files';
+import { buildSchemaIR, type EnumIR } from '@/util/schema-ir';
+import type { GeneratorOptions } from '@prisma/generator-helper';
+
+const customTypes = {
+	bit: { name: 'bit', data: 'boolean', sqlType: 'bit', withLength: true },
+	bitBuffer: { name: 'bitBuffer', data: 'Buffer', sqlType: 'bit', withLength: true },
+	tinyblob: { name: 'tinyblob', data: 'Buffer', sqlType: 'tinyblob' },
+	blob: { name: 'blob', data: 'Buffer', sqlType: 'blob' },
+	mediumblob: { name: 'mediumblob', data: 'Buffer', sqlType: 'mediumblob' },
+	longblob: { name: 'longblob', data: 'Buffer', sqlType: 'longblob' },
+} satisfies Record<string, CustomType>;
+
+const customTypeColumn = (context: EmitterContext, customType: CustomType, length?: number): ColumnBuilder => {
+	context.customTypes.set(customType.name, customType);
+	context.references.add(customType.name);
+
+	return { name: customType.name, options: { length } };
+};
+
+const nativeToDrizzleType = (
+	context: EmitterContext,
+	type: string,
+	nativeType: NativeType,
+): ColumnBuilder | undefined => {
+	const mySqlImports = context.dialectImports;
+	const [name, args] = nativeType;
+	// Arguments of native types are lengths, precisions and scales
+	const [arg0, arg1] = args.map(Number);
+
+	switch (name) {
+		case 'VarChar':
+			mySqlImports.add('varchar');
+			return { name: 'varchar', options: { length: arg0 ?? 191 } };
+		case 'Char':
+			mySqlImports.add('char');
+			return { name: 'char', options: { length: arg0 } };
+		case 'TinyText':
+			mySqlImports.add('tinytext');
+			return { name: 'tinytext' };
+		case 'Text':
+			mySqlImports.add('text');
+			return { name: 'text' };
+		case 'MediumText':
+			mySqlImports.add('mediumtext');
+			return { name: 'mediumtext' };
+		case 'LongText':
+			mySqlImports.add('longtext');
+			return { name: 'longtext' };
+		case 'Bit':
+			return customTypeColumn(context, type === 'Boolean' ? customTypes.bit : customTypes.bitBuffer, arg0);
+		case 'TinyInt':
+			if (type === 'Boolean') {
+				mySqlImports.add('boolean');
+				return { name: 'boolean' };
+			}
+
+			mySqlImports.add('tinyint');
+			return { name: 'tinyint' };
+		case 'UnsignedTinyInt':
+			mySqlImports.add('tinyint');
+			return { name: 'tinyint', options: { unsigned: true } };
+		case 'SmallInt':
+			mySqlImports.add('smallint');
+			return { name: 'smallint' };
+		case 'UnsignedSmallInt':
+			mySqlImports.add('smallint');
+			return { name: 'smallint', options: { unsigned: true } };
+		case 'MediumInt':
+			mySqlImports.add('mediumint');
+			return { name: 'mediumint' };
+		case 'UnsignedMediumInt':
+			mySqlImports.add('mediumint');
+			return { name: 'mediumint', options: { unsigned: true } };
+		case 'Int':
+			mySqlImports.add('int');
+			return { name: 'int' };
+		case 'UnsignedInt':
+			mySqlImports.add('int');
+			return { name: 'int', options: { unsigned: true } };
+		case 'Year':
+			mySqlImports.add('year');
+			return { name: 'year' };
+		case 'BigInt':
+			mySqlImports.add('bigint');
+			return { name: 'bigint', options: { mode: 'bigint' } };
+		case 'UnsignedBigInt':
+			mySqlImports.add('bigint');
+			return { name: 'bigint', options: { mode: 'bigint', unsigned: true } };
+		case 'Float':
+			mySqlImports.add('float');
+			return { name: 'float' };
+		case 'Double':
+			mySqlImports.add('double');
+			return { name: 'double' };
+		case 'Decimal':
+			mySqlImports.add('decimal');
+			return { name: 'decimal', options: { precision: arg0, scale: arg1 } };
+		case 'DateTime':
+			mySqlImports.add('datetime');
+			return { name: 'datetime', options: { fsp: arg0 } };
+		case 'Timestamp':
+			mySqlImports.add('timestamp');
+			return { name: 'timestamp', options: { fsp: arg0 } };
+		case 'Date':
+			mySqlImports.add('date');
+			return { name: 'date', options: { mode: 'date' } };
+		case 'Time':
+			mySqlImports.add('time');
+			return { name: 'time', options: { fsp: arg0 } };
+		case 'Json':
+			mySqlImports.add('json');
+			return { name: 'json' };
+		case 'Binary':
+			mySqlImports.add('binary');
+			return { name: 'binary', options: { length: arg0 } };
+		case 'VarBinary':
+			mySqlImports.add('varbinary');
+			return { name: 'varbinary', options: { length: arg0 ?? 191 } };
+		case 'TinyBlob':
+			return customTypeColumn(context, customTypes.tinyblob);
+		case 'Blob':
+			return customTypeColumn(context, customTypes.blob);
+		case 'MediumBlob':
+			return customTypeColumn(context, customTypes.mediumblob);
+		case 'LongBlob':
+			return customTypeColumn(context, customTypes.longblob);
+		default:
+			return undefined;
+	}
+};
 
-const mySqlImports = new Set<string>(['mysqlTable']);
-const drizzleImports = new Set<string>([]);
+const prismaToDrizzleType = (
+	context: EmitterContext,
+	type: string,
+	prismaEnum?: EnumIR,
+	nativeType?: NativeType | null,
+): ColumnBuilder | undefined => {
+	const mySqlImports = context.dialectImports;
 
-const prismaToDrizzleType = (type: string, colDbName: string, prismaEnum?: UnReadonlyDeep<DMMF.DatamodelEnum>) => {
 	if (prismaEnum) {
 		mySqlImports.add('mysqlEnum');
-		return `mysqlEnum('${colDbName}', [${prismaEnum.values.map((val) => `'${val.dbName ?? val.name}'`).join(', ')}])`;
+		return { name: 'mysqlEnum', values: prismaEnum.values.map((val) => val.dbName) };
 	}
 
+	const nativeColumn = nativeType ? nativeToDrizzleType(context, type, nativeType) : undefined;
+	if (nativeColumn) return nativeColumn;
+
 	switch (type.toLowerCase()) {
 		case 'bigint':
 			mySqlImports.add('bigint');
-			return `bigint('${colDbName}', { mode: 'bigint' })`;
+			return { name: 'bigint', options: { mode: 'bigint' } };
 		case 'boolean':
 			mySqlImports.add('boolean');
-			return `boolean('${colDbName}')`;
+			return { name: 'boolean' };
 		case 'bytes':
-			// Drizzle doesn't support it yet...
-			throw new GeneratorError("Drizzle ORM doesn't support binary data type for MySQL");
+			return customTypeColumn(context, customTypes.longblob);
 		case 'datetime':
 			mySqlImports.add('datetime');
-			return `datetime('${colDbName}', { fsp: 3 })`;
+			return { name: 'datetime', options: { fsp: 3 } };
 		case 'decimal':
 			mySqlImports.add('decimal');
-			return `decimal('${colDbName}', { precision: 65, scale: 30 })`;
+			return { name: 'decimal', options: { precision: 65, scale: 30 } };
 		case 'float':
 			mySqlImports.add('double');
-			return `double('${colDbName}')`;
+			return { name: 'double' };
 		case 'json':
 			mySqlImports.add('json');
-			return `json('${colDbName}')`;
+			return { name: 'json' };
 		case 'int':
 			mySqlImports.add('int');
-			return `int('${colDbName}')`;
+			return { name: 'int' };
 		case 'string':
 			mySqlImports.add('varchar');
-			return `varchar('${colDbName}', { length: 191 })`;
+			return { name: 'varchar', options: { length: 191 } };
 		default:
 			return undefined;
 	}
 };
 
-const addColumnModifiers = (field: DMMF.Field, column: string) => {
-	if (field.isRequired) column = column + `.notNull()`;
-	if (field.isId) column = column + `.primaryKey()`;
-	if (field.isUnique) column = column + `.unique()`;
-
-	if (field.default) {
-		const defVal = field.default;
-
-		switch (typeof defVal) {
-			case 'number':
-			case 'string':
-			case 'symbol':
-			case 'boolean':
-				column = column + `.default(${JSON.stringify(defVal)})`;
-				break;
-			case 'object':
-				if (Array.isArray(defVal)) {
-					column = column + `.default([${defVal.map((e) => JSON.stringify(e)).join(', ')}])`;
-					break;
-				}
-
-				const value = defVal as {
-					name: string;
-					args: any[];
-				};
-
-				if (value.name === 'now') {
-					column = column + `.default(sql\`CURRENT_TIMESTAMP\`)`;
-					break;
-				}
-
-				if (value.name === 'autoincrement') {
-					column = column + `.autoincrement()`;
-					break;
-				}
-
-				if (value.name === 'dbgenerated') {
-					column = column + `.default(sql\`${s(value.args[0], '`')}\`)`;
-
-					drizzleImports.add('sql');
-					break;
-				}
-
-				if (/^uuid\([0-9]*\)$/.test(value.name)) {
-					column = column + `.default(sql\`uuid()\`)`;
-
-					drizzleImports.add('sql');
-					break;
-				}
-
-				const stringified = `${value.name}${
-					value.args.length
-						? '(' + value.args.map((e) => String(e)).join(', ') + ')'
-						: value.name.endsWith(')')
-						? ''
-						: '()'
-				}`;
-				const sequel = `sql\`${s(stringified, '`')}\``;
-
-				drizzleImports.add('sql');
-				column = column + `.default(${sequel})`;
-				break;
-		}
-	}
-
-	return column;
-};
-
-const prismaToDrizzleColumn = (
-	field: DMMF.Field,
-	enums: UnReadonlyDeep<DMMF.DatamodelEnum[]>,
-): string | undefined => {
-	const colDbName = s(field.dbName ?? field.name);
-	let column = `\t${field.name}: `;
-
-	const drizzleType = prismaToDrizzleType(
-		field.type,
-		colDbName,
-		field.kind === 'enum' ? enums.find((e) => e.name === field.type)! : undefined,
-	);
-	if (!drizzleType) return undefined;
-
-	column = column + drizzleType;
-
-	column = addColumnModifiers(field, column);
-
-	return column;
+const mysqlModes: ColumnModes = {
+	bigint: ['number', 'bigint'],
+	date: ['date', 'string'],
+	datetime: ['date', 'string'],
+	decimal: ['string', 'number', 'bigint'],
+	timestamp: ['date', 'string'],
 };
 
-export const generateMySqlSchema = (options: GeneratorOptions) => {
-	const { models, enums } = options.dmmf.datamodel;
-	const clonedModels = JSON.parse(JSON.stringify(models)) as UnReadonlyDeep<DMMF.Model[]>;
-
-	const manyToManyModels = extractManyToManyModels(clonedModels);
-
-	const modelsWithImplicit = [...clonedModels, ...manyToManyModels] as DMMF.Model[];
-
-	const tables: string[] = [];
-	const rqb: string[] = [];
-
-	for (const schemaTable of modelsWithImplicit) {
-		const tableDbName = s(schemaTable.dbName ?? schemaTable.name);
-
-		const columnFields = Object.fromEntries(
-			schemaTable.fields
-				.map((e) => [e.name, prismaToDrizzleColumn(e, enums as UnReadonlyDeep<typeof enums>)])
-				.filter((e) => e[1] !== undefined),
-		);
-
-		const indexes: string[] = [];
-
-		const relFields = schemaTable.fields.filter((field) => field.relationToFields && field.relationFromFields);
-		const relations = relFields.map<string | undefined>((field) => {
-			if (!field?.relationFromFields?.length) return undefined;
-
-			const fkeyName = s(`${schemaTable.dbName ?? schemaTable.name}_${field.dbName ?? field.name}_fkey`);
-			let deleteAction: string;
-			switch (field.relationOnDelete) {
-				case undefined:
-				case 'Cascade':
-					deleteAction = 'cascade';
-					break;
-				case 'SetNull':
-					deleteAction = 'set null';
-					break;
-				case 'SetDefault':
-					deleteAction = 'set default';
-					break;
-				case 'Restrict':
-					deleteAction = 'restrict';
-					break;
-				case 'NoAction':
-					deleteAction = 'no action';
-					break;
-				default:
-					throw new GeneratorError(`Unknown delete action on relation ${fkeyName}: ${field.relationOnDelete}`);
+const createMySqlEmitter: CreateDialectEmitter = (_, context) => {
+	const { dialectImports: mySqlImports, drizzleImports } = context;
+
+	return {
+		module: 'mysql-core',
+		dialect: 'mysql',
+		tableBuilder: () => {
+			mySqlImports.add('mysqlTable');
+			return 'mysqlTable';
+		},
+		viewBuilder: () => {
+			mySqlImports.add('mysqlView');
+			return 'mysqlView';
+		},
+		columnType: (column) => prismaToDrizzleType(context, column.type, column.enum, column.nativeType),
+		modes: mysqlModes,
+		value: (column, value) => {
+			// `binary` and `varbinary` columns are read and written as strings, bytes are written as SQL
+			if (!Buffer.isBuffer(value) || !['Binary', 'VarBinary'].includes(column.nativeType?.[0] ?? '')) return undefined;
+
+			drizzleImports.add('sql');
+			return `sql\`x'${value.toString('hex')}'\``;
+		},
+		now: (column) => {
+			// Defaults of columns with fractional seconds need the same precision, `DateTime` has 3 digits by default
+			const fsp = column.nativeType ? column.nativeType[1][0] : '3';
+
+			drizzleImports.add('sql');
+			return `.default(sql\`CURRENT_TIMESTAMP${fsp === undefined ? '' : `(${fsp})`}\`)`;
+		},
+		autoincrement: () => `.autoincrement()`,
+		updatedAt: (column) =>
+			// Time columns are read and written as strings
+			column.nativeType?.[0] === 'Time' ? 'new Date().toISOString().slice(11, 23)' : 'new Date()',
+		index: (index, table) => {
+			const idxName = s(index.name);
+
+			if (index.type === 'fulltext') {
+				return `\t// FULLTEXT index '${idxName}' on (${
+					index.columns.map((f) => f.name).join(', ')
+				}) is skipped: Drizzle ORM doesn't support FULLTEXT indexes`;
 			}
 
-			mySqlImports.add('foreignKey');
-
-			return `\t'${fkeyName}': foreignKey({\n\t\tname: '${fkeyName}',\n\t\tcolumns: [${
-				field.relationFromFields.map((rel) => `${schemaTable.name}.${rel}`).join(', ')
-			}],\n\t\tforeignColumns: [${field.relationToFields!.map((rel) => `${field.type}.${rel}`).join(', ')}]\n\t})${
-				deleteAction && deleteAction !== 'no action' ? `\n\t\t.onDelete('${deleteAction}')` : ''
-			}\n\t\t.onUpdate('cascade')`;
-		}).filter((e) => e !== undefined) as string[];
-
-		indexes.push(...relations);
-
-		if (schemaTable.uniqueIndexes.length) {
-			mySqlImports.add('uniqueIndex');
-
-			const uniques = schemaTable.uniqueIndexes.map((idx) => {
-				const idxName = s(idx.name ?? `${schemaTable.name}_${idx.fields.join('_')}_key`);
-				// _key comes from Prisma, if their AI is to be trusted
-
-				return `\t'${
-					idx.name ? idxName : `${idxName.slice(0, idxName.length - 4)}_unique_idx`
-				}': uniqueIndex('${idxName}')\n\t\t.on(${idx.fields.map((f) => `${schemaTable.name}.${f}`).join(', ')})`;
-			});
+			const columns = index.columns.map((f) => {
+				// Drizzle ORM has no column modifiers for prefix length and sort order in MySQL indexes
+				if (f.length === undefined && f.sortOrder !== 'desc') return `${table.variable}.${f.key}`;
 
-			indexes.push(...uniques);
-		}
-
-		if (schemaTable.primaryKey) {
-			mySqlImports.add('primaryKey');
-
-			const pk = schemaTable.primaryKey!;
-			const pkName = s(pk.name ?? `${schemaTable.name}_cpk`);
-
-			const pkField = `\t'${pkName}': primaryKey({\n\t\tname: '${pkName}',\n\t\tcolumns: [${
-				pk.fields.map((f) => `${schemaTable.name}.${f}`).join(', ')
-			}]\n\t})`;
-
-			indexes.push(pkField);
-		}
-		const table = `export const ${schemaTable.name} = mysqlTable('${tableDbName}', {\n${
-			Object.values(columnFields).join(',\n')
-		}\n}${indexes.length ? `, (${schemaTable.name}) => ({\n${indexes.join(',\n')}\n})` : ''});`;
-
-		tables.push(table);
-
-		if (!relFields.length) continue;
-		drizzleImports.add('relations');
+				drizzleImports.add('sql');
+				return `sql\`\${${table.variable}.${f.key}}${f.length === undefined ? '' : `(${f.length})`}${
+					f.sortOrder === 'desc' ? ' desc' : ''
+				}\``;
+			}).join(', ');
 
-		const relationArgs = new Set<string>();
-		const rqbFields = relFields.map((field) => {
-			relationArgs.add(field.relationFromFields?.length ? 'one' : 'many');
-			const relName = s(field.relationName ?? '');
+			mySqlImports.add('index');
 
-			return `\t${field.name}: ${
-				field.relationFromFields?.length
-					? `one(${field.type}, {\n\t\trelationName: '${relName}',\n\t\tfields: [${
-						field.relationFromFields.map((e) => `${schemaTable.name}.${e}`).join(', ')
-					}],\n\t\treferences: [${field.relationToFields!.map((e) => `${field.type}.${e}`).join(', ')}]\n\t})`
-					: `many(${field.type}, {\n\t\trelationName: '${relName}'\n\t})`
+			return `\t'${idxName}': index('${idxName}')\n\t\t.on(${columns})${
+				index.algorithm === 'Hash' ? `\n\t\t.using('hash')` : ''
 			}`;
-		}).join(',\n');
-
-		const argString = Array.from(relationArgs.values()).join(', ');
-
-		const rqbRelation =
-			`export const ${schemaTable.name}Relations = relations(${schemaTable.name}, ({ ${argString} }) => ({\n${rqbFields}\n}));`;
-
-		rqb.push(rqbRelation);
-	}
-
-	const drizzleImportsArr = Array.from(drizzleImports.values()).sort((a, b) => a.localeCompare(b));
-	const drizzleImportsStr = drizzleImportsArr.length
-		? `import { ${drizzleImportsArr.join(', ')} } from 'drizzle-orm'`
-		: undefined;
-
-	const mySqlImportsArr = Array.from(mySqlImports.values()).sort((a, b) => a.localeCompare(b));
-	const mySqlImportsStr = mySqlImportsArr.length
-		? `import { ${mySqlImportsArr.join(', ')} } from 'drizzle-orm/mysql-core'`
-		: undefined;
-
-	let importsStr: string | undefined = [drizzleImportsStr, mySqlImportsStr].filter((e) => e !== undefined).join('\n');
-	if (!importsStr.length) importsStr = undefined;
-
-	const output = [importsStr, ...tables, ...rqb].filter((e) => e !== undefined).join('\n\n');
-
-	return output;
+		},
+	};
 };
+
+export const generateMySqlSchema = (options: GeneratorOptions, config: Config = defaultConfig): GeneratedSchema =>
+	// MySQL identifiers are limited to 64 characters
+	emitSchema(buildSchemaIR(options, config, 64), createMySqlEmitter, config);
@@ -1,291 +1,276 @@
+import { type Config, defaultConfig } from '@/config';
+import type { ColumnBuilder } from '@/util/column-builder';
+import type { CustomType } from '@/util/custom-type';
+import type { ColumnModes } from '@/util/directives';
+import type { NativeType } from '@/util/dmmf';
+import { type CreateDialectEmitter, emitSchema, type EmitterContext } from '@/util/emitter';
 import { s } from '@/util/escape';
-import { extractManyToManyModels } from '@/util/extract-many-to-many-models';
-import { UnReadonlyDeep } from '@/util/un-readonly-deep';
-import { type DMMF, GeneratorError, type GeneratorOptions } from '@prisma/generator-helper';
+import { prismaToPgOperatorClass } from '@/util/pg-operator-class';
+import type { Declaration, GeneratedSchema } from '@/util/schema-files';
+import { buildSchemaIR, type ColumnIR } from '@/util/schema-ir';
+import type { GeneratorOptions } from '@prisma/generator-helper';
+
+const customTypes = {
+	bit: { name: 'bit', data: 'string', sqlType: 'bit', withLength: true },
+	bytea: { name: 'bytea', data: 'Buffer', sqlType: 'bytea' },
+	citext: { name: 'citext', data: 'string', sqlType: 'citext' },
+	money: { name: 'money', data: 'string', sqlType: 'money' },
+	oid: { name: 'oid', data: 'number', sqlType: 'oid' },
+	varbit: { name: 'varbit', data: 'string', sqlType: 'varbit', withLength: true },
+	xml: { name: 'xml', data: 'string', sqlType: 'xml' },
+} satisfies Record<string, CustomType>;
+
+export const customTypeColumn = (context: EmitterContext, customType: CustomType, length?: number): ColumnBuilder => {
+	context.customTypes.set(customType.name, customType);
+	context.references.add(customType.name);
+
+	return { name: customType.name, options: { length } };
+};
+
+const nativeToDrizzleType = (
+	context: EmitterContext,
+	nativeType: NativeType,
+	defVal?: string,
+): ColumnBuilder | undefined => {
+	const pgImports = context.dialectImports;
+	const [name, args] = nativeType;
+	// Arguments of native types are lengths, precisions and scales
+	const [arg0, arg1] = args.map(Number);
+
+	switch (name) {
+		case 'Text':
+			pgImports.add('text');
+			return { name: 'text' };
+		case 'Char':
+			pgImports.add('char');
+			return { name: 'char', options: { length: arg0 } };
+		case 'VarChar':
+			pgImports.add('varchar');
+			return { name: 'varchar', options: { length: arg0 } };
+		case 'Uuid':
+			pgImports.add('uuid');
+			return { name: 'uuid' };
+		case 'Inet':
+			pgImports.add('inet');
+			return { name: 'inet' };
+		case 'Citext':
+			return customTypeColumn(context, customTypes.citext);
+		case 'Xml':
+			return customTypeColumn(context, customTypes.xml);
+		case 'Bit':
+			return customTypeColumn(context, customTypes.bit, arg0);
+		case 'VarBit':
+			return customTypeColumn(context, customTypes.varbit, arg0);
+		case 'Boolean':
+			pgImports.add('boolean');
+			return { name: 'boolean' };
+		case 'Integer':
+			if (defVal === 'autoincrement') {
+				pgImports.add('serial');
+				return { name: 'serial' };
+			}
+
+			pgImports.add('integer');
+			return { name: 'integer' };
+		case 'SmallInt':
+			if (defVal === 'autoincrement') {
+				pgImports.add('smallserial');
+				return { name: 'smallserial' };
+			}
+
+			pgImports.add('smallint');
+			return { name: 'smallint' };
+		case 'Oid':
+			return customTypeColumn(context, customTypes.oid);
+		case 'BigInt':
+			if (defVal === 'autoincrement') {
+				pgImports.add('bigserial');
+				return { name: 'bigserial', options: { mode: 'bigint' } };
+			}
+
+			pgImports.add('bigint');
+			return { name: 'bigint', options: { mode: 'bigint' } };
+		case 'DoublePrecision':
+			pgImports.add('doublePrecision');
+			return { name: 'doublePrecision' };
+		case 'Real':
+			pgImports.add('real');
+			return { name: 'real' };
+		case 'Decimal':
+			pgImports.add('decimal');
+			return { name: 'decimal', options: { precision: arg0, scale: arg1 } };
+		case 'Money':
+			return customTypeColumn(context, customTypes.money);
+		case 'Timestamp':
+			pgImports.add('timestamp');
+			return { name: 'timestamp', options: { precision: arg0 } };
+		case 'Timestamptz':
+			pgImports.add('timestamp');
+			return { name: 'timestamp', options: { precision: arg0, withTimezone: true } };
+		case 'Date':
+			pgImports.add('date');
+			return { name: 'date', options: { mode: 'date' } };
+		case 'Time':
+			pgImports.add('time');
+			return { name: 'time', options: { precision: arg0 } };
+		case 'Timetz':
+			pgImports.add('time');
+			return { name: 'time', options: { precision: arg0, withTimezone: true } };
+		case 'Json':
+			pgImports.add('json');
+			return { name: 'json' };
+		case 'JsonB':
+			pgImports.add('jsonb');
+			return { name: 'jsonb' };
+		case 'ByteA':
+			return customTypeColumn(context, customTypes.bytea);
+		default:
+			return undefined;
+	}
+};
 
-const pgImports = new Set<string>();
-const drizzleImports = new Set<string>();
-pgImports.add('pgTable');
+export const prismaToDrizzleType = (
+	context: EmitterContext,
+	type: string,
+	defVal?: string,
+	nativeType?: NativeType | null,
+): ColumnBuilder | undefined => {
+	const pgImports = context.dialectImports;
+	const nativeColumn = nativeType ? nativeToDrizzleType(context, nativeType, defVal) : undefined;
+	if (nativeColumn) return nativeColumn;
 
-const prismaToDrizzleType = (type: string, colDbName: string, defVal?: string) => {
 	switch (type.toLowerCase()) {
 		case 'bigint':
+			if (defVal === 'autoincrement') {
+				pgImports.add('bigserial');
+				return { name: 'bigserial', options: { mode: 'bigint' } };
+			}
+
 			pgImports.add('bigint');
-			return `bigint('${colDbName}', { mode: 'bigint' })`;
+			return { name: 'bigint', options: { mode: 'bigint' } };
 		case 'boolean':
 			pgImports.add('boolean');
-			return `boolean('${colDbName}')`;
+			return { name: 'boolean' };
 		case 'bytes':
-			// Drizzle doesn't support it yet...
-			throw new GeneratorError("Drizzle ORM doesn't support binary data type for PostgreSQL");
+			return customTypeColumn(context, customTypes.bytea);
 		case 'datetime':
 			pgImports.add('timestamp');
-			return `timestamp('${colDbName}', { precision: 3 })`;
+			return { name: 'timestamp', options: { precision: 3 } };
 		case 'decimal':
 			pgImports.add('decimal');
-			return `decimal('${colDbName}', { precision: 65, scale: 30 })`;
+			return { name: 'decimal', options: { precision: 65, scale: 30 } };
 		case 'float':
 			pgImports.add('doublePrecision');
-			return `doublePrecision('${colDbName}')`;
+			return { name: 'doublePrecision' };
 		case 'json':
 			pgImports.add('jsonb');
-			return `jsonb('${colDbName}')`;
+			return { name: 'jsonb' };
 		case 'int':
 			if (defVal === 'autoincrement') {
 				pgImports.add('serial');
-				return `serial('${colDbName}')`;
+				return { name: 'serial' };
 			}
 
 			pgImports.add('integer');
-			return `integer('${colDbName}')`;
+			return { name: 'integer' };
 		case 'string':
 			pgImports.add('text');
-			return `text('${colDbName}')`;
+			return { name: 'text' };
 		default:
 			return undefined;
 	}
 };
 
-const addColumnModifiers = (field: DMMF.Field, column: string) => {
-	if (field.isList) column = column + `.array()`;
-	if (field.isRequired) column = column + `.notNull()`;
-	if (field.isId) column = column + `.primaryKey()`;
-	if (field.isUnique) column = column + `.unique()`;
-
-	if (field.default) {
-		const defVal = field.default;
-
-		switch (typeof defVal) {
-			case 'number':
-			case 'string':
-			case 'symbol':
-			case 'boolean':
-				column = column + `.default(${JSON.stringify(defVal)})`;
-				break;
-			case 'object':
-				if (Array.isArray(defVal)) {
-					column = column + `.default([${defVal.map((e) => JSON.stringify(e)).join(', ')}])`;
-					break;
-				}
-
-				const value = defVal as {
-					name: string;
-					args: any[];
-				};
-
-				if (value.name === 'now') {
-					column = column + `.defaultNow()`;
-					break;
-				}
-
-				if (value.name === 'autoincrement') {
-					break;
-				}
-
-				if (value.name === 'dbgenerated') {
-					column = column + `.default(sql\`${s(value.args[0], '`')}\`)`;
-
-					drizzleImports.add('sql');
-					break;
-				}
-
-				if (/^uuid\([0-9]*\)$/.test(value.name)) {
-					column = column + `.default(sql\`uuid()\`)`;
-
-					drizzleImports.add('sql');
-					break;
-				}
-
-				const stringified = `${value.name}${
-					value.args.length
-						? '(' + value.args.map((e) => String(e)).join(', ') + ')'
-						: value.name.endsWith(')')
-						? ''
-						: '()'
-				}`;
-				const sequel = `sql\`${s(stringified, '`')}\``;
-
-				drizzleImports.add('sql');
-				column = column + `.default(${sequel})`;
-				break;
-		}
-	}
-
-	return column;
-};
-
-const prismaToDrizzleColumn = (
-	field: DMMF.Field,
-): string | undefined => {
-	const colDbName = s(field.dbName ?? field.name);
-	let column = `\t${field.name}: `;
-
-	if (field.kind === 'enum') {
-		column = column + `${field.type}('${colDbName}')`;
-	} else {
-		const defVal = typeof field.default === 'object' && !Array.isArray(field.default)
-			? (field.default as { name: string }).name
-			: undefined;
-
-		const drizzleType = prismaToDrizzleType(field.type, colDbName, defVal);
-		if (!drizzleType) return undefined;
-
-		column = column + drizzleType;
-	}
-
-	column = addColumnModifiers(field, column);
-
-	return column;
+// Time columns are read and written as strings
+const pgModes: ColumnModes = {
+	bigint: ['number', 'bigint'],
+	bigserial: ['number', 'bigint'],
+	date: ['string', 'date'],
+	decimal: ['string', 'number', 'bigint'],
+	timestamp: ['date', 'string'],
 };
 
-export const generatePgSchema = (options: GeneratorOptions) => {
-	const { models, enums } = options.dmmf.datamodel;
-	const clonedModels = JSON.parse(JSON.stringify(models)) as UnReadonlyDeep<DMMF.Model[]>;
-
-	const manyToManyModels = extractManyToManyModels(clonedModels);
-
-	const modelsWithImplicit = [...clonedModels, ...manyToManyModels] as DMMF.Model[];
-
-	const pgEnums: string[] = [];
-
-	for (const schemaEnum of enums) {
-		if (!schemaEnum.values.length) continue;
-		const enumDbName = s(schemaEnum.dbName ?? schemaEnum.name);
-
-		pgImports.add('pgEnum');
-
-		pgEnums.push(
-			`export const ${schemaEnum.name} = pgEnum('${enumDbName}', [${
-				schemaEnum.values.map((e) => `'${e.dbName ?? e.name}'`).join(', ')
-			}])`,
-		);
+const isTimeColumn = (column: ColumnIR) => ['Time', 'Timetz'].includes(column.nativeType?.[0] ?? '');
+
+export const createPgEmitter: CreateDialectEmitter = (ir, context) => {
+	const pgImports = context.dialectImports;
+
+	const usedNames = new Set<string>([
+		...ir.tables.map((e) => e.variable),
+		...ir.views.map((e) => e.variable),
+		...ir.enums.map((e) => e.variable),
+	]);
+	const pgSchemas = new Map<string, string>();
+	const pgSchemaDeclarations: Declaration[] = [];
+
+	for (const schemaName of ir.schemas) {
+		// Drizzle ORM treats `public` schema as default, it can't be declared via `pgSchema`
+		if (schemaName === 'public') continue;
+
+		let schemaVar = schemaName.replace(/[^\w$]/g, '_').replace(/^(?=\d)/, '_');
+		if (usedNames.has(schemaVar)) schemaVar = `${schemaVar}Schema`;
+		usedNames.add(schemaVar);
+
+		pgSchemas.set(schemaName, schemaVar);
+		pgSchemaDeclarations.push({
+			kind: 'schema',
+			name: schemaVar,
+			source: schemaName,
+			code: `export const ${schemaVar} = pgSchema('${s(schemaName)}')`,
+			imports: [{ from: `${context.config.drizzleImportPath}/pg-core`, names: ['pgSchema'] }],
+			references: [],
+		});
 	}
 
-	const tables: string[] = [];
-	const rqb: string[] = [];
-
-	for (const schemaTable of modelsWithImplicit) {
-		const tableDbName = s(schemaTable.dbName ?? schemaTable.name);
-
-		const columnFields = Object.fromEntries(
-			schemaTable.fields
-				.map((e) => [e.name, prismaToDrizzleColumn(e)])
-				.filter((e) => e[1] !== undefined),
-		);
-
-		const indexes: string[] = [];
-
-		const relFields = schemaTable.fields.filter((field) => field.relationToFields && field.relationFromFields);
-		const relations = relFields.map<string | undefined>((field) => {
-			if (!field?.relationFromFields?.length) return undefined;
-
-			const fkeyName = s(`${schemaTable.dbName ?? schemaTable.name}_${field.dbName ?? field.name}_fkey`);
-			let deleteAction: string;
-			switch (field.relationOnDelete) {
-				case undefined:
-				case 'Cascade':
-					deleteAction = 'cascade';
-					break;
-				case 'SetNull':
-					deleteAction = 'set null';
-					break;
-				case 'SetDefault':
-					deleteAction = 'set default';
-					break;
-				case 'Restrict':
-					deleteAction = 'restrict';
-					break;
-				case 'NoAction':
-					deleteAction = 'no action';
-					break;
-				default:
-					throw new GeneratorError(`Unknown delete action on relation ${fkeyName}: ${field.relationOnDelete}`);
-			}
-
-			pgImports.add('foreignKey');
-
-			return `\t'${fkeyName}': foreignKey({\n\t\tname: '${fkeyName}',\n\t\tcolumns: [${
-				field.relationFromFields.map((rel) => `${schemaTable.name}.${rel}`).join(', ')
-			}],\n\t\tforeignColumns: [${field.relationToFields!.map((rel) => `${field.type}.${rel}`).join(', ')}]\n\t})${
-				deleteAction && deleteAction !== 'no action' ? `\n\t\t.onDelete('${deleteAction}')` : ''
-			}\n\t\t.onUpdate('cascade')`;
-		}).filter((e) => e !== undefined) as string[];
-
-		indexes.push(...relations);
-
-		if (schemaTable.uniqueIndexes.length) {
-			pgImports.add('uniqueIndex');
-
-			const uniques = schemaTable.uniqueIndexes.map((idx) => {
-				const idxName = s(idx.name ?? `${schemaTable.name}_${idx.fields.join('_')}_key`);
-				// _key comes from Prisma, if their AI is to be trusted
-
-				return `\t'${
-					idx.name ? idxName : `${idxName.slice(0, idxName.length - 4)}_unique_idx`
-				}': uniqueIndex('${idxName}')\n\t\t.on(${idx.fields.map((f) => `${schemaTable.name}.${f}`).join(', ')})`;
-			});
-
-			indexes.push(...uniques);
+	const schemaBuilder = (schemaName: string | undefined, builder: 'table' | 'view' | 'enum') => {
+		const schemaVar = schemaName === undefined ? undefined : pgSchemas.get(schemaName);
+		if (schemaVar) {
+			context.references.add(schemaVar);
+			return `${schemaVar}.${builder}`;
 		}
 
-		if (schemaTable.primaryKey) {
-			pgImports.add('primaryKey');
-
-			const pk = schemaTable.primaryKey!;
-			const pkName = s(pk.name ?? `${schemaTable.name}_cpk`);
-
-			const pkField = `\t'${pkName}': primaryKey({\n\t\tname: '${pkName}',\n\t\tcolumns: [${
-				pk.fields.map((f) => `${schemaTable.name}.${f}`).join(', ')
-			}]\n\t})`;
-
-			indexes.push(pkField);
-		}
-
-		const table = `export const ${schemaTable.name} = pgTable('${tableDbName}', {\n${
-			Object.values(columnFields).join(',\n')
-		}\n}${indexes.length ? `, (${schemaTable.name}) => ({\n${indexes.join(',\n')}\n})` : ''});`;
-
-		tables.push(table);
-
-		if (!relFields.length) continue;
-		drizzleImports.add('relations');
-
-		const relationArgs = new Set<string>();
-		const rqbFields = relFields.map((field) => {
-			relationArgs.add(field.relationFromFields?.length ? 'one' : 'many');
-			const relName = s(field.relationName ?? '');
-
-			return `\t${field.name}: ${
-				field.relationFromFields?.length
-					? `one(${field.type}, {\n\t\trelationName: '${relName}',\n\t\tfields: [${
-						field.relationFromFields.map((e) => `${schemaTable.name}.${e}`).join(', ')
-					}],\n\t\treferences: [${field.relationToFields!.map((e) => `${field.type}.${e}`).join(', ')}]\n\t})`
-					: `many(${field.type}, {\n\t\trelationName: '${relName}'\n\t})`
+		const pgBuilder = ({ table: 'pgTable', view: 'pgView', enum: 'pgEnum' } as const)[builder];
+		pgImports.add(pgBuilder);
+
+		return pgBuilder;
+	};
+
+	return {
+		module: 'pg-core',
+		dialect: 'postgresql',
+		declarations: pgSchemaDeclarations,
+		enumBuilder: (schemaEnum) => schemaBuilder(schemaEnum.schema, 'enum'),
+		tableBuilder: (table) => schemaBuilder(table.schema, 'table'),
+		viewBuilder: (view) => schemaBuilder(view.schema, 'view'),
+		columnType: (column) => {
+			if (!column.enum) return prismaToDrizzleType(context, column.type, column.default?.kind, column.nativeType);
+
+			context.references.add(column.enum.variable);
+			return { name: column.enum.variable };
+		},
+		modes: pgModes,
+		now: () => `.defaultNow()`,
+		updatedAt: (column) => isTimeColumn(column) ? 'new Date().toISOString().slice(11, 23)' : 'new Date()',
+		index: (index, table) => {
+			const idxName = s(index.name);
+
+			const columns = index.columns.map((f) =>
+				`${table.variable}.${f.key}${f.operatorClass ? `.op('${s(prismaToPgOperatorClass(f.operatorClass))}')` : ''}${
+					f.sortOrder === 'desc' ? '.desc()' : ''
+				}`
+			).join(', ');
+
+			pgImports.add('index');
+
+			return `\t'${idxName}': index('${idxName}')\n\t\t${
+				index.algorithm && index.algorithm !== 'BTree'
+					? `.using('${index.algorithm.toLowerCase()}', ${columns})`
+					: `.on(${columns})`
 			}`;
-		}).join(',\n');
-
-		const argString = Array.from(relationArgs.values()).join(', ');
-
-		const rqbRelation =
-			`export const ${schemaTable.name}Relations = relations(${schemaTable.name}, ({ ${argString} }) => ({\n${rqbFields}\n}));`;
-
-		rqb.push(rqbRelation);
-	}
-
-	const drizzleImportsArr = Array.from(drizzleImports.values()).sort((a, b) => a.localeCompare(b));
-	const drizzleImportsStr = drizzleImportsArr.length
-		? `import { ${drizzleImportsArr.join(', ')} } from 'drizzle-orm'`
-		: undefined;
-
-	const pgImportsArr = Array.from(pgImports.values()).sort((a, b) => a.localeCompare(b));
-	const pgImportsStr = pgImportsArr.length
-		? `import { ${pgImportsArr.join(', ')} } from 'drizzle-orm/pg-core'`
-		: undefined;
-
-	let importsStr: string | undefined = [drizzleImportsStr, pgImportsStr].filter((e) => e !== undefined).join('\n');
-	if (!importsStr.length) importsStr = undefined;
-
-	const output = [importsStr, ...pgEnums, ...tables, ...rqb].filter((e) => e !== undefined).join('\n\n');
-
-	return output;
+		},
+	};
 };
+
+export const generatePgSchema = (options: GeneratorOptions, config: Config = defaultConfig): GeneratedSchema =>
+	// PostgreSQL identifiers are limited to 63 characters
+	emitSchema(buildSchemaIR(options, config, 63), createPgEmitter, config);
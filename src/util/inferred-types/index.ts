@@ -0,0 +1,38 @@
+import { s } from '@/util/escape';
+import type { Naming } from '@/util/naming';
+import type { Declaration } from '@/util/schema-files';
+import type { EnumIR } from '@/util/schema-ir';
+
+export const tableTypeDeclarations = (modelName: string, naming: Naming): Declaration[] => {
+	const tableVar = naming.table(modelName);
+
+	return [
+		{
+			kind: 'selectType',
+			name: naming.selectType(modelName),
+			source: modelName,
+			code: `export type ${naming.selectType(modelName)} = typeof ${tableVar}.$inferSelect;`,
+			imports: [],
+			references: [tableVar],
+		},
+		{
+			kind: 'insertType',
+			name: naming.insertType(modelName),
+			source: modelName,
+			code: `export type ${naming.insertType(modelName)} = typeof ${tableVar}.$inferInsert;`,
+			imports: [],
+			references: [tableVar],
+		},
+	];
+};
+
+export const enumTypeDeclaration = (schemaEnum: EnumIR, naming: Naming): Declaration => ({
+	kind: 'enumType',
+	name: naming.enumType(schemaEnum.name),
+	source: schemaEnum.name,
+	code: `export type ${naming.enumType(schemaEnum.name)} = ${
+		schemaEnum.values.map((e) => `'${s(e.dbName)}'`).join(' | ')
+	};`,
+	imports: [],
+	references: [],
+});
@@ -0,0 +1,16 @@
+import { withoutDirectives } from '@/util/directives';
+
+/**
+ * Formats Prisma `///` documentation as a JSDoc comment, placed on its own line before a declaration
+ *
+ * @param indent indentation of the declaration the comment belongs to
+ */
+export const jsDoc = (documentation: string | undefined, indent = ''): string => {
+	const text = withoutDirectives(documentation)?.trim();
+	if (!text) return '';
+
+	const lines = text.replace(/\*\//g, '*\\/').split(/\r?\n/);
+	if (lines.length === 1) return `${indent}/** ${lines[0]} */\n`;
+
+	return `${indent}/**\n${lines.map((e) => `${indent} *${e.length ? ` ${e}` : ''}`).join('\n')}\n${indent} */\n`;
+};
@@ -0,0 +1,54 @@
+import type { Config } from '@/config';
+import { pluralize, toCase } from '@/util/case';
+
+export type Naming = {
+	table: (modelName: string) => string;
+	enum: (enumName: string) => string;
+	relations: (modelName: string) => string;
+	column: (fieldName: string) => string;
+	selectType: (modelName: string) => string;
+	insertType: (modelName: string) => string;
+	enumType: (enumName: string) => string;
+	insertSchema: (modelName: string) => string;
+	selectSchema: (modelName: string) => string;
+};
+
+/**
+ * @param exportNames names of models and enums set by `@drizzle.name`, used as is instead of configured naming
+ * @param implicitTables names of implicit many-to-many tables, which are named after relations and aren't pluralized
+ */
+export const createNaming = (
+	config: Config,
+	exportNames: ReadonlyMap<string, string> = new Map(),
+	implicitTables: ReadonlySet<string> = new Set(),
+): Naming => {
+	const tableBase = (modelName: string) => {
+		const exportName = exportNames.get(modelName);
+		if (exportName) return exportName;
+
+		const name = toCase(modelName, config.tableCase);
+
+		return config.tablePlural && !implicitTables.has(modelName) ? pluralize(name) : name;
+	};
+
+	// Validation schemas are named after a single row, e.g. `insertUserSchema`
+	const schemaBase = (modelName: string) => {
+		const name = exportNames.get(modelName) ?? toCase(modelName, config.tableCase);
+
+		return `${name.slice(0, 1).toUpperCase()}${name.slice(1)}`;
+	};
+
+	return {
+		table: (modelName) =>
+			exportNames.get(modelName) ?? `${config.tablePrefix}${tableBase(modelName)}${config.tableSuffix}`,
+		enum: (enumName) =>
+			exportNames.get(enumName) ?? `${config.enumPrefix}${toCase(enumName, config.enumCase)}${config.enumSuffix}`,
+		relations: (modelName) => `${config.relationsPrefix}${tableBase(modelName)}${config.relationsSuffix}`,
+		column: (fieldName) => toCase(fieldName, config.columnCase),
+		selectType: (modelName) => `${config.selectTypePrefix}${modelName}${config.selectTypeSuffix}`,
+		insertType: (modelName) => `${config.insertTypePrefix}${modelName}${config.insertTypeSuffix}`,
+		enumType: (enumName) => `${config.enumTypePrefix}${enumName}${config.enumTypeSuffix}`,
+		insertSchema: (modelName) => `insert${schemaBase(modelName)}Schema`,
+		selectSchema: (modelName) => `select${schemaBase(modelName)}Schema`,
+	};
+};
@@ -0,0 +1,96 @@
+import type { Config } from '@/config';
+import { generateDbFactory } from '@/util/db-factory';
+import { baselineMigrationFiles, hasDrizzleKitMigrations } from '@/util/drizzle-kit';
+import {
+	generateCockroachSchema,
+	generateMySqlSchema,
+	generatePgSchema,
+	generateSQLiteSchema,
+} from '@/util/generators';
+import { assertUniqueNames, type GeneratedSchema, joinSchema, splitSchema } from '@/util/schema-files';
+import { generateValidators } from '@/util/validators';
+import { GeneratorError, type GeneratorOptions } from '@prisma/generator-helper';
+import path from 'path';
+
+const generateSchema = (options: GeneratorOptions, config: Config): GeneratedSchema => {
+	const dbType = options.datasources[0]?.provider;
+
+	switch (dbType) {
+		case 'postgres':
+		case 'postgresql':
+			return generatePgSchema(options, config);
+
+		case 'cockroachdb':
+			return generateCockroachSchema(options, config);
+
+		case 'mysql':
+			return generateMySqlSchema(options, config);
+
+		case 'sqlite':
+			return generateSQLiteSchema(options, config);
+
+		case undefined:
+			throw new GeneratorError('Unable to determine database type.\nMake sure datasource.provider is specified.');
+
+		default:
+			throw new GeneratorError(
+				`Invalid database type for Drizzle schema generation: ${dbType}.\nSupported database types: PostgreSQL, CockroachDB, MySQL, SQLite.`,
+			);
+	}
+};
+
+/**
+ * Generates contents of all output files
+ *
+ * @param schemaFile - name of schema file if files aren't split
+ * @param outputFolder - folder files are written to, baseline of drizzle-kit isn't rewritten once it has own migrations
+ * @returns map of file paths relative to output folder to their contents
+ */
+export const outputFiles = (
+	options: GeneratorOptions,
+	config: Config,
+	schemaFile = 'schema.ts',
+	outputFolder?: string,
+): Record<string, string> => {
+	const output = generateSchema(options, config);
+
+	assertUniqueNames(output);
+
+	// drizzle-kit migrations folder is relative to output folder
+	const drizzleKitFiles = output.drizzleKitSnapshot
+			&& !(outputFolder && hasDrizzleKitMigrations(path.join(outputFolder, config.drizzleKitOut)))
+		? Object.fromEntries(
+			Object.entries(baselineMigrationFiles(output.drizzleKitSnapshot))
+				.map(([file, content]) => [path.join(config.drizzleKitOut, file), content]),
+		)
+		: {};
+
+	if (config.splitFiles) {
+		return {
+			...splitSchema(output),
+			...drizzleKitFiles,
+			...(config.validators === 'none' ? {} : {
+				'validators.ts': generateValidators(output, config, './index'),
+			}),
+			...(config.driver === 'none' ? {} : {
+				'db.ts': generateDbFactory(output, options.datasources[0]!, config, './index'),
+			}),
+		};
+	}
+
+	return {
+		[schemaFile]: joinSchema(output),
+		...drizzleKitFiles,
+		...(config.validators === 'none' ? {} : {
+			'validators.ts': generateValidators(output, config, `./${schemaFile.replace(/\.ts$/, '')}`),
+		}),
+		...(config.driver === 'none' ? {} : {
+			'db.ts': generateDbFactory(
+				output,
+				options.datasources[0]!,
+				config,
+				`./${schemaFile.replace(/\.ts$/, '')}`,
+			),
+		}),
+	};
+};
@@ -0,0 +1,16 @@
+/**
+ * Converts operator class of Prisma index to PostgreSQL name
+ *
+ * Prisma names built-in operator classes in PascalCase: `JsonbPathOps`, `Int4MinMaxOps`, `TimestampTzBloomOps`
+ */
+export const prismaToPgOperatorClass = (operatorClass: string) => {
+	if (!/[A-Z]/.test(operatorClass)) return operatorClass;
+
+	return operatorClass
+		.replace('MinMax', 'Minmax')
+		.replace('TimestampTz', 'Timestamptz')
+		.replace('TimeTz', 'Timetz')
+		.replace('VarBit', 'Varbit')
+		.replace(/(?<!^)([A-Z])/g, '_$1')
+		.toLowerCase();
+};
@@ -0,0 +1,58 @@
+import type { Field } from '@/util/dmmf';
+import type { SchemaActions } from '@/util/relations';
+import { GeneratorError } from '@prisma/generator-helper';
+
+const datasourceRegex = /^[ \t]*datasource[ \t]+\w+[ \t]*\{([^]*?)^[ \t]*\}/m;
+// `referentialIntegrity` is the name of `relationMode` before Prisma 4.5
+const relationModeRegex = /^[ \t]*(?:relationMode|referentialIntegrity)[ \t]*=[ \t]*"(\w+)"/m;
+
+/**
+ * DMMF doesn't expose `relationMode` of the datasource, so it's read directly from the datamodel
+ *
+ * @returns whether relations are emulated by Prisma client, in which case there are no foreign keys in the database
+ */
+export const isPrismaRelationMode = (datamodel: string): boolean => {
+	const datasource = datamodel.match(datasourceRegex)?.[1];
+
+	return datasource?.match(relationModeRegex)?.[1] === 'prisma';
+};
+
+const actions: Record<string, string> = {
+	Cascade: 'cascade',
+	SetNull: 'set null',
+	SetDefault: 'set default',
+	Restrict: 'restrict',
+	NoAction: 'no action',
+};
+
+const toAction = (action: string, fkeyName: string, event: 'delete' | 'update') => {
+	const drizzleAction = actions[action];
+	if (!drizzleAction) throw new GeneratorError(`Unknown ${event} action on relation ${fkeyName}: ${action}`);
+
+	return drizzleAction;
+};
+
+export type ReferentialActions = {
+	onDelete?: string;
+	onUpdate?: string;
+};
+
+/**
+ * Resolves Drizzle ORM actions of a foreign key, applying Prisma defaults for actions that aren't set:
+ * `Restrict` on delete of required relations, `SetNull` on delete of optional ones and `Cascade` on update
+ *
+ * `no action` is the default of Drizzle ORM, so it's omitted
+ */
+export const referentialActions = (
+	field: Field,
+	schemaActions: SchemaActions,
+	fkeyName: string,
+): ReferentialActions => {
+	const onDelete = toAction(schemaActions.onDelete ?? (field.isRequired ? 'Restrict' : 'SetNull'), fkeyName, 'delete');
+	const onUpdate = toAction(schemaActions.onUpdate ?? 'Cascade', fkeyName, 'update');
+
+	return {
+		onDelete: onDelete === 'no action' ? undefined : onDelete,
+		onUpdate: onUpdate === 'no action' ? undefined : onUpdate,
+	};
+};
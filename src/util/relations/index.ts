@@ -0,0 +1,130 @@
+import type { Field, Model } from '@/util/dmmf';
+
+const modelRegex = /^[ \t]*model[ \t]+(\w+)[ \t]*\{([^]*?)^[ \t]*\}/gm;
+const relationAttributeRegex = /^[ \t]*(\w+)[ \t].*@relation\(([^\n]*)\)/gm;
+const mapArgRegex = /\bmap:[ \t]*"([^"]+)"/;
+const onDeleteArgRegex = /\bonDelete:[ \t]*(\w+)/;
+const onUpdateArgRegex = /\bonUpdate:[ \t]*(\w+)/;
+
+const fkeySuffix = '_fkey';
+
+type RelationAttribute = {
+	map?: string;
+	onDelete?: string;
+	onUpdate?: string;
+};
+
+export type SchemaActions = Pick<RelationAttribute, 'onDelete' | 'onUpdate'>;
+
+export type SchemaRelations = {
+	/** Name of foreign key constraint of relation field holding foreign key columns */
+	foreignKeyName: (model: Model, field: Field) => string;
+	/** Referential actions set on relation field holding foreign key columns */
+	actions: (model: Model, field: Field) => SchemaActions;
+	/** Name of relation shared by both of its sides, unique across schema */
+	relationName: (model: string, field: Field) => string;
+	/** Opposite side of relation */
+	opposite: (model: string, field: Field) => Field | undefined;
+	/** Whether relation is the only one between its pair of different models */
+	isSole: (model: string, field: Field) => boolean;
+};
+
+/**
+ * DMMF doesn't expose `map` of `@relation`, nor `onUpdate` in earlier versions of Prisma 6, so arguments are read directly from the datamodel
+ */
+const extractRelationAttributes = (datamodel: string) => {
+	const attributes = new Map<string, RelationAttribute>();
+
+	for (const [, model, body] of datamodel.matchAll(modelRegex)) {
+		for (const [, field, args] of body!.matchAll(relationAttributeRegex)) {
+			attributes.set(`${model}.${field}`, {
+				map: args!.match(mapArgRegex)?.[1],
+				onDelete: args!.match(onDeleteArgRegex)?.[1],
+				onUpdate: args!.match(onUpdateArgRegex)?.[1],
+			});
+		}
+	}
+
+	return attributes;
+};
+
+// Prisma only requires relation names to be unique between a pair of models
+const relationKey = (model: string, field: Field) => `${field.relationName}:${[model, field.type].sort().join(':')}`;
+
+/**
+ * Resolves names of relations and their foreign keys the way Prisma names them in the database
+ *
+ * @param models - models with implicit many-to-many tables
+ * @param maxIdentifierLength - length Prisma truncates default constraint names to
+ */
+export const parseSchemaRelations = (
+	models: readonly Model[],
+	datamodel: string,
+	maxIdentifierLength: number,
+): SchemaRelations => {
+	const relationAttributes = extractRelationAttributes(datamodel);
+	const modelsByName = new Map(models.map((e) => [e.name, e]));
+
+	const relationKeys = new Map<string, Set<string>>();
+	for (const model of models) {
+		for (const field of model.fields) {
+			if (!field.relationName) continue;
+
+			const keys = relationKeys.get(field.relationName) ?? new Set<string>();
+			relationKeys.set(field.relationName, keys.add(relationKey(model.name, field)));
+		}
+	}
+
+	// Relations sharing a name between different pairs of models are told apart by their models
+	const usedNames = new Set(relationKeys.keys());
+	const relationNames = new Map<string, string>();
+	for (const [name, keys] of relationKeys) {
+		if (keys.size === 1) continue;
+
+		for (const key of keys) {
+			const base = `${name}_${key.split(':').slice(1).join('_')}`;
+
+			let unique = base;
+			for (let i = 2; usedNames.has(unique); ++i) unique = `${base}_${i}`;
+
+			usedNames.add(unique);
+			relationNames.set(key, unique);
+		}
+	}
+
+	return {
+		foreignKeyName: (model, field) => {
+			const map = relationAttributes.get(`${model.name}.${field.name}`)?.map;
+			if (map) return map;
+
+			const columns = field.relationFromFields!.map((name) => {
+				const column = model.fields.find((e) => e.name === name);
+
+				return column?.dbName ?? name;
+			});
+
+			const name = `${model.dbName ?? model.name}_${columns.join('_')}`;
+
+			return `${name.slice(0, maxIdentifierLength - fkeySuffix.length)}${fkeySuffix}`;
+		},
+		actions: (model, field) => {
+			const attribute = relationAttributes.get(`${model.name}.${field.name}`);
+
+			return {
+				onDelete: field.relationOnDelete ?? attribute?.onDelete,
+				onUpdate: field.relationOnUpdate ?? attribute?.onUpdate,
+			};
+		},
+		relationName: (model, field) => {
+			const key = relationKey(model, field);
+
+			return relationNames.get(key) ?? field.relationName!;
+		},
+		opposite: (model, field) =>
+			modelsByName.get(field.type)?.fields.find((e) =>
+				e !== field && e.type === model && e.relationName === field.relationName
+			),
+		isSole: (model, field) =>
+			field.type !== model && modelsByName.get(field.type)?.fields.filter((e) => e.type === model).length === 1,
+	};
+};
@@ -0,0 +1,220 @@
+import type { DrizzleKitSnapshot } from '@/util/drizzle-kit';
+import type { Naming } from '@/util/naming';
+import type { TableIR } from '@/util/schema-ir';
+import { GeneratorError } from '@prisma/generator-helper';
+import pathLib from 'path';
+
+export type DeclarationKind =
+	| 'customType'
+	| 'schema'
+	| 'enum'
+	| 'table'
+	| 'view'
+	| 'relations'
+	| 'selectType'
+	| 'insertType'
+	| 'enumType';
+
+export type Declaration = {
+	kind: DeclarationKind;
+	/** Name of declared variable */
+	name: string;
+	/** Name of Prisma model or enum the declaration is generated from */
+	source: string;
+	code: string;
+	/** Names imported by the code, recorded when it's emitted */
+	imports: SchemaImport[];
+	/** Names of other declarations referenced by the code */
+	references: string[];
+};
+
+export type SchemaImport = {
+	from: string;
+	/** Imported names, optionally aliased or type-only: `v7 as uuidv7`, `type Shape` */
+	names: string[];
+};
+
+export type GeneratedSchema = {
+	imports: SchemaImport[];
+	declarations: Declaration[];
+	/** Tables of the schema with columns, which are generated */
+	tables: TableIR[];
+	/** Names of declarations generated from the schema */
+	naming: Naming;
+	/** drizzle-kit snapshot of the schema, generated if `drizzleKitOut` is set */
+	drizzleKitSnapshot?: DrizzleKitSnapshot;
+};
+
+// Name an import is referenced by in generated code
+const localName = (name: string) => name.replace(/^type /, '').split(' as ').pop()!;
+
+const typeDeclarationKinds: DeclarationKind[] = ['selectType', 'insertType', 'enumType'];
+
+// Type aliases live in a separate namespace and are never referenced by generated code
+const isTypeDeclaration = ({ kind }: Declaration) => typeDeclarationKinds.includes(kind);
+
+// Words that can't name variables of ES modules, which are strict mode code
+const reservedWords = new Set(
+	[
+		'arguments await break case catch class const continue debugger default delete do else enum eval export extends',
+		'false finally for function if implements import in instanceof interface let new null package private protected',
+		'public return static super switch this throw true try typeof var void while with yield',
+	].join(' ').split(' '),
+);
+
+// Predefined types that can't name type aliases
+const reservedTypeNames = new Set(
+	'any bigint boolean never null number object string symbol undefined unknown void'.split(' '),
+);
+
+/**
+ * Makes sure naming options didn't produce clashing or reserved variables, which would break generated code
+ */
+export const assertUniqueNames = ({ imports, declarations }: GeneratedSchema) => {
+	const names = new Map<string, string>(
+		imports.flatMap(({ from, names }) =>
+			names.map((name): [string, string] => [localName(name), `import from '${from}'`])
+		),
+	);
+	const typeNames = new Map<string, string>();
+
+	for (const declaration of declarations) {
+		const { kind, name, source } = declaration;
+		const namespace = isTypeDeclaration(declaration) ? typeNames : names;
+
+		if (reservedWords.has(name) || (namespace === typeNames && reservedTypeNames.has(name))) {
+			throw new GeneratorError(
+				`Generated ${kind} "${name}" of ${source} is a reserved word.\nAdjust naming options of generator or set @drizzle.name.`,
+			);
+		}
+
+		const existing = namespace.get(name);
+		if (existing) {
+			throw new GeneratorError(
+				`Generated ${kind} "${name}" of ${source} clashes with ${existing}.\nAdjust naming options of generator.`,
+			);
+		}
+
+		namespace.set(name, `${kind} of ${source}`);
+	}
+};
+
+/**
+ * Merges imports of the same modules, keeping modules in order of their first import
+ */
+export const mergeImports = (imports: SchemaImport[]): SchemaImport[] => {
+	const modules = new Map<string, Set<string>>();
+	for (const { from, names } of imports) modules.set(from, new Set([...(modules.get(from) ?? []), ...names]));
+
+	return Array.from(modules, ([from, names]) => ({ from, names: Array.from(names) }));
+};
+
+const importStatements = (imports: SchemaImport[]) =>
+	imports.filter(({ names }) => names.length).map(({ from, names }) =>
+		`import { ${[...names].sort((a, b) => a.localeCompare(b)).join(', ')} } from '${from}'`
+	);
+
+export const joinSchema = ({ imports, declarations }: Pick<GeneratedSchema, 'imports' | 'declarations'>): string => {
+	const importsStr = importStatements(imports).join('\n');
+
+	return [importsStr, ...declarations.map((e) => e.code)].filter((e) => e.length).join('\n\n');
+};
+
+const declarationPath = ({ kind, name, source }: Declaration) => {
+	switch (kind) {
+		case 'customType':
+			return 'custom-types';
+		case 'schema':
+			return 'schemas';
+		case 'enum':
+		case 'enumType':
+			return `enums/${source}`;
+		case 'table':
+		case 'selectType':
+		case 'insertType':
+			return `tables/${source}`;
+		case 'view':
+			return `views/${source}`;
+		case 'relations':
+			return `relations/${source}`;
+		default:
+			throw new Error(`Unknown declaration kind of ${name}: ${kind}`);
+	}
+};
+
+// Exports a declaration that isn't exported yet, keeping its JSDoc in front
+const exported = (code: string) => {
+	const doc = code.match(/^\/\*\*(?:[^*]|\*(?!\/))*\*\/\n/)?.[0] ?? '';
+	const declaration = code.slice(doc.length);
+
+	return declaration.startsWith('export ') ? code : `${doc}export ${declaration}`;
+};
+
+const relativeImportPath = (from: string, to: string) => {
+	const fromDepth = from.split('/').length - 1;
+
+	return `${fromDepth ? '../'.repeat(fromDepth) : './'}${to}`;
+};
+
+// Relative module paths of options point from output folder, so they're rebased onto nested files
+const rebasedImportPath = (path: string, from: string) => {
+	const depth = path.split('/').length - 1;
+
+	return depth && from.startsWith('.') ? pathLib.posix.join('../'.repeat(depth), from) : from;
+};
+
+/**
+ * Splits generated schema into separate files for each table, view, enum and relations declaration
+ *
+ * Relations are kept apart from tables, so tables only import each other for lazily evaluated foreign keys,
+ * which keeps circular imports between files safe
+ *
+ * @returns map of file paths relative to output folder to their contents
+ */
+export const splitSchema = ({ declarations }: GeneratedSchema): Record<string, string> => {
+	const files = new Map<string, Declaration[]>();
+
+	for (const declaration of declarations) {
+		const path = declarationPath(declaration);
+		files.set(path, [...(files.get(path) ?? []), declaration]);
+	}
+
+	const output: Record<string, string> = {};
+
+	for (const [path, fileDeclarations] of files) {
+		const fileImports = mergeImports(fileDeclarations.flatMap((e) => e.imports)).map(({ from, names }) => ({
+			from: rebasedImportPath(path, from),
+			names,
+		}));
+		const references = new Set(fileDeclarations.flatMap((e) => e.references));
+
+		const localImports = new Map<string, string[]>();
+		for (const declaration of declarations) {
+			if (isTypeDeclaration(declaration)) continue;
+
+			const declarationFile = declarationPath(declaration);
+			if (declarationFile === path || !references.has(declaration.name)) continue;
+
+			localImports.set(declarationFile, [...(localImports.get(declarationFile) ?? []), declaration.name]);
+		}
+
+		for (const [file, names] of localImports) {
+			fileImports.push({ from: relativeImportPath(path, file), names });
+		}
+
+		output[`${path}.ts`] = joinSchema({
+			imports: fileImports,
+			declarations: fileDeclarations.map((e) => ({
+				...e,
+				code: exported(e.code),
+			})),
+		});
+	}
+
+	output['index.ts'] = [...files.keys()]
+		.filter((path) => path !== 'custom-types')
+		.map((path) => `export * from './${path}'`)
+		.join('\n');
+
+	return output;
+};
@@ -0,0 +1,421 @@
+import type { Config } from '@/config';
+import { clientDefaultFn } from '@/util/default-fn';
+import { type Directives, parseSchemaDirectives, withoutIgnored } from '@/util/directives';
+import type { Datamodel, Field, Index, Model, NativeType } from '@/util/dmmf';
+import { extractBlockSchemas } from '@/util/extract-block-schemas';
+import { extractManyToManyModels, manyToManyIndexes } from '@/util/extract-many-to-many-models';
+import { createNaming, type Naming } from '@/util/naming';
+import { isPrismaRelationMode, type ReferentialActions, referentialActions } from '@/util/referential-actions';
+import { parseSchemaRelations } from '@/util/relations';
+import type { SchemaImport } from '@/util/schema-files';
+import { extractSequences, type SequenceOptions } from '@/util/sequences';
+import { UnReadonlyDeep } from '@/util/un-readonly-deep';
+import { extractViews, viewColumnField } from '@/util/views';
+import { type DMMF, GeneratorError, type GeneratorOptions } from '@prisma/generator-helper';
+
+/*
+Dialect-agnostic description of generated schema, built once from DMMF.
+Names are resolved, but not escaped: dialect emitters only decide how the schema is written.
+*/
+
+export type EnumIR = {
+	/** Name of Prisma enum */
+	name: string;
+	variable: string;
+	dbName: string;
+	schema?: string;
+	documentation?: string;
+	values: readonly { name: string; dbName: string }[];
+};
+
+export type DefaultIR =
+	/** Values are converted to types of Drizzle ORM columns: bigints, dates, buffers, parsed JSON */
+	| { kind: 'value'; value: unknown }
+	| { kind: 'list'; values: readonly unknown[] }
+	| { kind: 'now' }
+	| { kind: 'autoincrement' }
+	/** `sequence()` of CockroachDB, created by Prisma as identity column */
+	| { kind: 'sequence'; options: SequenceOptions }
+	/** Database expression, of `dbgenerated()` or of functions unknown to generator */
+	| { kind: 'sql'; sql: string }
+	/** Value generated by Prisma client, generated with `$defaultFn` */
+	| { kind: 'client'; expression: string; import?: SchemaImport };
+
+export type ColumnIR = {
+	/** Name of Prisma field */
+	name: string;
+	/** Key of column in table object */
+	key: string;
+	dbName: string;
+	kind: DMMF.FieldKind;
+	/** Prisma scalar type or name of Prisma enum */
+	type: string;
+	nativeType?: NativeType | null;
+	enum?: EnumIR;
+	documentation?: string;
+	directives: Directives;
+	isList: boolean;
+	isRequired: boolean;
+	isPrimaryKey: boolean;
+	isUnique: boolean;
+	isUpdatedAt: boolean;
+	default?: DefaultIR;
+};
+
+export type ForeignKeyIR = ReferentialActions & {
+	name: string;
+	/** Keys of columns holding the foreign key */
+	columns: string[];
+	foreignTable: string;
+	foreignColumns: string[];
+};
+
+export type UniqueIndexIR = {
+	/** Key of index in table config */
+	key: string;
+	name: string;
+	columns: string[];
+};
+
+export type IndexIR = {
+	name: string;
+	type: 'normal' | 'fulltext';
+	algorithm?: string;
+	columns: {
+		/** Name of Prisma field */
+		name: string;
+		key: string;
+		operatorClass?: string;
+		sortOrder?: 'asc' | 'desc';
+		length?: number;
+	}[];
+};
+
+export type PrimaryKeyIR = {
+	name: string;
+	columns: string[];
+};
+
+export type RelationIR = {
+	key: string;
+	kind: 'one' | 'many';
+	/** Unset for back side of one-to-one relation resolved by Drizzle ORM from its opposite side */
+	relationName?: string;
+	table: string;
+	/** Keys of joined columns of own table, set for named `one` relations */
+	fields?: readonly string[];
+	/** Keys of joined columns of related table, set for named `one` relations */
+	references?: readonly string[];
+};
+
+export type TableIR = {
+	/** Name of Prisma model, or of implicit many-to-many relation */
+	name: string;
+	variable: string;
+	dbName: string;
+	schema?: string;
+	documentation?: string;
+	columns: ColumnIR[];
+	foreignKeys: ForeignKeyIR[];
+	uniqueIndexes: UniqueIndexIR[];
+	indexes: IndexIR[];
+	primaryKey?: PrimaryKeyIR;
+	relations: RelationIR[];
+};
+
+export type ViewIR = {
+	/** Name of Prisma view */
+	name: string;
+	variable: string;
+	dbName: string;
+	schema?: string;
+	documentation?: string;
+	columns: ColumnIR[];
+};
+
+export type SchemaIR = {
+	naming: Naming;
+	/** Database schemas of datasource */
+	schemas: string[];
+	enums: EnumIR[];
+	tables: TableIR[];
+	views: ViewIR[];
+};
+
+// Prisma writes defaults as JSON values: enum names, base64 bytes, ISO dates, serialized JSON
+const columnValue = (field: Field, schemaEnum: EnumIR | undefined, value: unknown): unknown => {
+	if (schemaEnum) return schemaEnum.values.find((e) => e.name === value)?.dbName ?? value;
+
+	switch (field.type) {
+		case 'BigInt':
+			return BigInt(String(value));
+		case 'Decimal':
+			return String(value);
+		case 'DateTime': {
+			const date = new Date(String(value));
+
+			// Time columns are read as strings
+			return ['Time', 'Timetz'].includes(field.nativeType?.[0] ?? '') ? date.toISOString().slice(11, 23) : date;
+		}
+		case 'Json':
+			return JSON.parse(String(value));
+		case 'Bytes':
+			return Buffer.from(String(value), 'base64');
+		default:
+			return value;
+	}
+};
+
+const columnDefault = (
+	field: Field,
+	schemaEnum: EnumIR | undefined,
+	config: Config,
+	sequence?: SequenceOptions,
+): DefaultIR | undefined => {
+	const defVal = field.default;
+	if (defVal === undefined || defVal === null) return undefined;
+
+	if (Array.isArray(defVal)) return { kind: 'list', values: defVal.map((e) => columnValue(field, schemaEnum, e)) };
+	if (typeof defVal !== 'object') return { kind: 'value', value: columnValue(field, schemaEnum, defVal) };
+
+	const value = defVal as {
+		name: string;
+		args: any[];
+	};
+
+	if (value.name === 'now') return { kind: 'now' };
+	if (value.name === 'autoincrement') return { kind: 'autoincrement' };
+	if (value.name === 'sequence') return { kind: 'sequence', options: sequence ?? {} };
+	if (value.name === 'dbgenerated') return { kind: 'sql', sql: value.args[0] };
+
+	const defaultFn = clientDefaultFn(value, config);
+	if (defaultFn) return { kind: 'client', ...defaultFn };
+
+	return {
+		kind: 'sql',
+		sql: `${value.name}${
+			value.args.length
+				? '(' + value.args.map((e) => String(e)).join(', ') + ')'
+				: value.name.endsWith(')')
+				? ''
+				: '()'
+		}`,
+	};
+};
+
+/**
+ * Builds dialect-agnostic description of the schema
+ *
+ * @param maxIdentifierLength - length Prisma truncates default constraint names to in the database
+ */
+export const buildSchemaIR = (
+	options: GeneratorOptions,
+	config: Config,
+	maxIdentifierLength: number,
+): SchemaIR => {
+	// Relations are emulated by Prisma client in `prisma` relation mode
+	const foreignKeys = config.foreignKeys && !isPrismaRelationMode(options.datamodel);
+
+	const datamodel = options.dmmf.datamodel as Datamodel;
+	const { enums: datamodelEnums, indexes: datamodelIndexes = [] } = datamodel;
+	const { models: datamodelModels, views: datamodelViews } = extractViews(datamodel, options.datamodel);
+	const directives = parseSchemaDirectives([...datamodelModels, ...datamodelViews], datamodelEnums, config);
+	const models = withoutIgnored(datamodelModels, datamodelIndexes, directives);
+	const views = withoutIgnored(datamodelViews, datamodelIndexes, directives) as Model[];
+	const viewNames = new Set(views.map((e) => e.name));
+	const clonedModels = JSON.parse(JSON.stringify(models)) as UnReadonlyDeep<DMMF.Model[]>;
+
+	const manyToManyModels = extractManyToManyModels(clonedModels);
+	const naming = createNaming(config, directives.names, new Set(manyToManyModels.map((e) => e.name)));
+	const schemaIndexes = [...datamodelIndexes, ...manyToManyIndexes(manyToManyModels)];
+
+	const modelsWithImplicit = [...clonedModels, ...manyToManyModels] as Model[];
+	const schemaRelations = parseSchemaRelations(modelsWithImplicit, options.datamodel, maxIdentifierLength);
+
+	const blockSchemas = extractBlockSchemas(options.datamodel);
+	const sequences = extractSequences(options.datamodel);
+	const modelSchemas = new Map<string, string | undefined>(
+		clonedModels.map((model: Model) => [model.name, model.schema ?? blockSchemas.get(model.name)]),
+	);
+	for (const model of manyToManyModels) {
+		// Prisma creates implicit many-to-many tables in the schema of the alphabetically first model
+		const [firstModel] = model.fields.filter((f) => f.kind === 'object').map((f) => f.type).sort();
+		modelSchemas.set(model.name, modelSchemas.get(firstModel!));
+	}
+
+	const enums = datamodelEnums.map((schemaEnum): EnumIR => ({
+		name: schemaEnum.name,
+		variable: naming.enum(schemaEnum.name),
+		dbName: schemaEnum.dbName ?? schemaEnum.name,
+		schema: blockSchemas.get(schemaEnum.name),
+		documentation: schemaEnum.documentation,
+		values: schemaEnum.values.map((e) => ({ name: e.name, dbName: e.dbName ?? e.name })),
+	}));
+
+	// Relation fields aren't columns
+	const columns = (model: Model, fields: readonly Field[]) =>
+		fields.filter((field) => field.kind !== 'object').map((field): ColumnIR => {
+			const schemaEnum = field.kind === 'enum' ? enums.find((e) => e.name === field.type) : undefined;
+
+			return {
+				name: field.name,
+				key: naming.column(field.name),
+				dbName: field.dbName ?? field.name,
+				kind: field.kind,
+				type: field.type,
+				nativeType: field.nativeType,
+				enum: schemaEnum,
+				documentation: field.documentation,
+				directives: directives.field(model.name, field.name),
+				isList: field.isList,
+				isRequired: field.isRequired,
+				isPrimaryKey: field.isId,
+				isUnique: field.isUnique,
+				isUpdatedAt: !!field.isUpdatedAt,
+				default: columnDefault(field, schemaEnum, config, sequences.get(`${model.name}.${field.name}`)),
+			};
+		});
+
+	// Columns and relations share objects of rows, so `columnCase` must keep their keys apart
+	const assertUniqueKeys = (model: Model, fields: readonly Field[]) => {
+		const keys = new Map<string, string>();
+
+		for (const field of fields) {
+			const key = naming.column(field.name);
+			const kind = field.kind === 'object' ? 'relation' : 'column';
+
+			const existing = keys.get(key);
+			if (existing) {
+				throw new GeneratorError(
+					`Generated ${kind} "${key}" of field ${model.name}.${field.name} clashes with ${existing}.\nAdjust naming options of generator.`,
+				);
+			}
+
+			keys.set(key, `${kind} of field ${model.name}.${field.name}`);
+		}
+	};
+
+	const tables = modelsWithImplicit.map((model): TableIR => {
+		const tableDbName = model.dbName ?? model.name;
+
+		// Drizzle ORM relations can't reference views
+		const relFields = model.fields.filter((field) =>
+			field.relationToFields && field.relationFromFields && !viewNames.has(field.type)
+		);
+		assertUniqueKeys(model, [
+			...model.fields.filter((field) => field.kind !== 'object'),
+			...(config.relations ? relFields : []),
+		]);
+
+		const tableIndexes = schemaIndexes.filter((idx) =>
+			idx.model === model.name && (idx.type === 'normal' || idx.type === 'fulltext')
+		);
+
+		return {
+			name: model.name,
+			variable: naming.table(model.name),
+			dbName: tableDbName,
+			schema: modelSchemas.get(model.name),
+			documentation: model.documentation,
+			columns: columns(model, model.fields),
+			foreignKeys: foreignKeys
+				? relFields.filter((field) => field.relationFromFields!.length).map((field) => {
+					const name = schemaRelations.foreignKeyName(model, field);
+
+					return {
+						name,
+						columns: field.relationFromFields!.map((e) => naming.column(e)),
+						foreignTable: naming.table(field.type),
+						foreignColumns: field.relationToFields!.map((e) => naming.column(e)),
+						...referentialActions(field, schemaRelations.actions(model, field), name),
+					};
+				})
+				: [],
+			uniqueIndexes: model.uniqueIndexes.map((idx) => {
+				// _key comes from Prisma, if their AI is to be trusted
+				const name = idx.name ?? `${model.name}_${idx.fields.join('_')}_key`;
+
+				return {
+					key: idx.name ? name : `${name.slice(0, name.length - 4)}_unique_idx`,
+					name,
+					columns: idx.fields.map((f) => naming.column(f)),
+				};
+			}),
+			indexes: tableIndexes.map((index: Index) => ({
+				name: index.dbName
+					?? `${tableDbName}_${
+						index.fields.map((f) => model.fields.find((e) => e.name === f.name)?.dbName ?? f.name).join('_')
+					}_idx`,
+				type: index.type as IndexIR['type'],
+				algorithm: index.algorithm,
+				columns: index.fields.map((f) => ({
+					name: f.name,
+					key: naming.column(f.name),
+					operatorClass: f.operatorClass,
+					sortOrder: f.sortOrder,
+					length: f.length,
+				})),
+			})),
+			primaryKey: model.primaryKey
+				? {
+					name: model.primaryKey.name ?? `${model.name}_cpk`,
+					columns: model.primaryKey.fields.map((f) => naming.column(f)),
+				}
+				: undefined,
+			relations: config.relations
+				? relFields.map((field): RelationIR => {
+					const key = naming.column(field.name);
+					const table = naming.table(field.type);
+					const relationName = schemaRelations.relationName(model.name, field);
+
+					if (field.relationFromFields?.length) {
+						return {
+							key,
+							kind: 'one',
+							relationName,
+							table,
+							fields: field.relationFromFields.map((e) => naming.column(e)),
+							references: field.relationToFields!.map((e) => naming.column(e)),
+						};
+					}
+					if (field.isList) return { key, kind: 'many', relationName, table };
+
+					// Drizzle ORM requires columns of `one` relations with a name, so back side of one-to-one relation
+					// is left unnamed when there's nothing to tell it apart from, and is joined on its opposite side otherwise
+					if (schemaRelations.isSole(model.name, field)) return { key, kind: 'one', table };
+
+					const opposite = schemaRelations.opposite(model.name, field)!;
+
+					return {
+						key,
+						kind: 'one',
+						relationName,
+						table,
+						fields: opposite.relationToFields!.map((e) => naming.column(e)),
+						references: opposite.relationFromFields!.map((e) => naming.column(e)),
+					};
+				})
+				: [],
+		};
+	});
+
+	return {
+		naming,
+		schemas: options.datasources[0]?.schemas ?? [],
+		enums,
+		tables,
+		views: views.map((view): ViewIR => {
+			const viewColumns = view.fields.map(viewColumnField).filter((field) => field.kind !== 'object');
+			assertUniqueKeys(view, viewColumns);
+
+			return {
+				name: view.name,
+				variable: naming.table(view.name),
+				dbName: view.dbName ?? view.name,
+				schema: view.schema ?? blockSchemas.get(view.name),
+				documentation: view.documentation,
+				columns: columns(view, viewColumns),
+			};
+		}),
+	};
+};
@@ -0,0 +1,32 @@
+const modelRegex = /^[ \t]*model[ \t]+(\w+)[ \t]*\{([^]*?)^[ \t]*\}/gm;
+const sequenceRegex = /^[ \t]*(\w+)[ \t].*@default\(\s*sequence\(([^)\n]*)\)/gm;
+const argRegex = /\b(start|minValue|maxValue|increment|cache)[ \t]*:[ \t]*(-?\d+)/g;
+
+/** Arguments of `@default(sequence(...))` */
+export type SequenceOptions = {
+	start?: string;
+	minValue?: string;
+	maxValue?: string;
+	increment?: string;
+	cache?: string;
+};
+
+/**
+ * DMMF doesn't expose arguments of `sequence()`, so they are read directly from the datamodel
+ *
+ * @returns map of `Model.field` to arguments of their sequences
+ */
+export const extractSequences = (datamodel: string): Map<string, SequenceOptions> => {
+	const sequences = new Map<string, SequenceOptions>();
+
+	for (const [, model, body] of datamodel.matchAll(modelRegex)) {
+		for (const [, field, args] of body!.matchAll(sequenceRegex)) {
+			sequences.set(
+				`${model}.${field}`,
+				Object.fromEntries(Array.from(args!.matchAll(argRegex), ([, name, value]) => [name, value])),
+			);
+		}
+	}
+
+	return sequences;
+};
@@ -0,0 +1,67 @@
+import type { Config } from '@/config';
+import type { GeneratedSchema } from '@/util/schema-files';
+import type { ColumnIR } from '@/util/schema-ir';
+
+// Lengths of these native types aren't always derived by validation libraries, so they're refined explicitly
+const lengthNativeTypes = ['VarChar', 'Char'];
+
+const refinements = (columns: readonly ColumnIR[], config: Config) =>
+	columns.flatMap((column) => {
+		const [nativeName, [length] = []] = column.nativeType ?? [];
+		// Columns of `@drizzle.type` builders don't have lengths of native types
+		if (column.directives.type || !nativeName || !lengthNativeTypes.includes(nativeName) || length === undefined) {
+			return [];
+		}
+
+		// Lengths of list columns are lengths of their elements
+		if (config.validators === 'valibot') {
+			return `\t${column.key}: (schema) => ${
+				column.isList
+					? `v.array(v.pipe(schema.item, v.maxLength(${length})))`
+					: `v.pipe(schema, v.maxLength(${length}))`
+			}`;
+		}
+
+		return `\t${column.key}: (schema) => ${
+			column.isList ? `schema.element.max(${length}).array()` : `schema.max(${length})`
+		}`;
+	});
+
+/**
+ * Generates `drizzle-zod` or `drizzle-valibot` insert and select schemas for each generated table
+ *
+ * @param schemaImportPath path generated schema is imported from by validators file
+ */
+export const generateValidators = (
+	schema: GeneratedSchema,
+	config: Config,
+	schemaImportPath: string,
+): string => {
+	const library = config.validators === 'valibot' ? 'drizzle-valibot' : 'drizzle-zod';
+	const { tables, naming } = schema;
+
+	let usesValibot = false;
+	const declarations = tables.map(({ name: source, variable: name, columns }) => {
+		const tableRefinements = refinements(columns, config);
+		if (tableRefinements.length && config.validators === 'valibot') usesValibot = true;
+
+		const args = tableRefinements.length ? `${name}, {\n${tableRefinements.join(',\n')}\n}` : name;
+
+		return `export const ${naming.insertSchema(source)} = createInsertSchema(${args});\n\n`
+			+ `export const ${naming.selectSchema(source)} = createSelectSchema(${args});`;
+	});
+
+	const imports = [
+		...(usesValibot ? [`import * as v from 'valibot'`] : []),
+		...(tables.length
+			? [
+				`import { createInsertSchema, createSelectSchema } from '${library}'`,
+				`import { ${
+					tables.map((e) => e.variable).sort((a, b) => a.localeCompare(b)).join(', ')
+				} } from '${schemaImportPath}'`,
+			]
+			: []),
+	];
+
+	return [imports.join('\n'), ...declarations].filter((e) => e.length).join('\n\n');
+};
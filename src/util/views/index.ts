@@ -0,0 +1,32 @@
+import type { Datamodel, Field } from '@/util/dmmf';
+import type { DMMF } from '@prisma/generator-helper';
+
+const viewRegex = /^[ \t]*view[ \t]+(\w+)[ \t]*\{/gm;
+
+/**
+ * Older Prisma versions list views among models without distinguishing them,
+ * so view names are read directly from the datamodel
+ */
+export const extractViews = (
+	datamodel: Datamodel,
+	datamodelText: string,
+): { models: DMMF.Model[]; views: DMMF.Model[] } => {
+	const viewNames = new Set(Array.from(datamodelText.matchAll(viewRegex), ([, name]) => name!));
+
+	return {
+		models: datamodel.models.filter((e) => !viewNames.has(e.name)),
+		views: [...(datamodel.views ?? []), ...datamodel.models.filter((e) => viewNames.has(e.name))],
+	};
+};
+
+/**
+ * Views are read-only, so their columns are generated without constraints and defaults
+ */
+export const viewColumnField = (field: Field): Field => ({
+	...field,
+	isId: false,
+	isUnique: false,
+	isUpdatedAt: false,
+	hasDefaultValue: false,
+	default: undefined,
+});
@@ -0,0 +1,13 @@
+import { generateDrizzleSchema, prismaSchemaOptions } from '@/api';
+import { describe, expect, test } from 'vitest';
+import { fixturePath } from './utils';
+
+describe('API', () => {
+	test('requires the schema along with DMMF', async () => {
+		const { dmmf } = await prismaSchemaOptions({ schemaPath: fixturePath('pg') });
+
+		await expect(generateDrizzleSchema({ dmmf, provider: 'postgresql' })).rejects.toThrow(
+			'Either datamodel or schemaPath must be set.',
+		);
+	});
+});
@@ -0,0 +1,56 @@
+import { convert } from '@/cli';
+import fs from 'fs';
+import path from 'path';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import { tmpFolder } from './utils';
+
+const root = path.join(tmpFolder, 'cli');
+const schemaPath = path.join(root, 'schema.prisma');
+const out = path.join(root, 'drizzle-schema');
+
+const schema = `datasource db {
+  provider = "sqlite"
+  url      = "file:dev.db"
+}
+
+generator drizzle {
+  provider      = "drizzle-prisma-generator"
+  splitFiles    = true
+  drizzleKitOut = "drizzle"
+}
+
+model User {
+  id Int @id
+}`;
+
+describe('convert', () => {
+	beforeEach(async () => {
+		fs.rmSync(root, { recursive: true, force: true });
+		fs.mkdirSync(root, { recursive: true });
+		fs.writeFileSync(schemaPath, schema);
+
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		expect(await convert([schemaPath, '--out', out])).toBe(0);
+	});
+
+	test('checks that generated files are up to date', async () => {
+		expect(await convert([schemaPath, '--out', out, '--check'])).toBe(0);
+
+		fs.appendFileSync(path.join(out, 'tables/User.ts'), '\n');
+		expect(await convert([schemaPath, '--out', out, '--check'])).toBe(1);
+		expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Drizzle schema is stale'));
+	});
+
+	test('checks for split files which are not generated anymore, except of drizzle-kit', async () => {
+		fs.mkdirSync(path.join(out, 'drizzle'), { recursive: true });
+		fs.writeFileSync(path.join(out, 'drizzle/relations.ts'), '');
+		expect(await convert([schemaPath, '--out', out, '--check'])).toBe(0);
+
+		fs.writeFileSync(path.join(out, 'tables/Post.ts'), '');
+		expect(await convert([schemaPath, '--out', out, '--check'])).toBe(1);
+		expect(console.error).toHaveBeenCalledWith(
+			expect.stringMatching(/^Files aren't generated anymore, remove them:\n.*tables\/Post\.ts$/),
+		);
+	});
+});
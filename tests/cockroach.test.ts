@@ -0,0 +1,17 @@
+import { describe, expect, test } from 'vitest';
+import { drizzleKitSnapshot, generatedSnapshot, generateFixture, importFiles } from './utils';
+
+describe('CockroachDB', () => {
+	test('generates schema', async () => {
+		const files = await generateFixture('cockroach');
+
+		expect(files['schema.ts']).toMatchSnapshot();
+	});
+
+	test('generates snapshot of drizzle-kit, equal to the one of generated schema', async () => {
+		const files = await generateFixture('cockroach', { drizzleKitOut: 'drizzle' });
+		const schema = await importFiles('cockroach-kit', files, 'schema.ts');
+
+		expect(generatedSnapshot(files, 'drizzle')).toEqual(await drizzleKitSnapshot('postgresql', schema));
+	});
+});
@@ -0,0 +1,33 @@
+import { defaultConfig, parseConfig } from '@/config';
+import { describe, expect, test } from 'vitest';
+
+describe('config', () => {
+	test('parses options of generator block', () => {
+		expect(parseConfig({ splitFiles: 'true', tableCase: 'snake_case', tablePrefix: 't_', drizzleKitOut: 'drizzle' }))
+			.toEqual({
+				...defaultConfig,
+				splitFiles: true,
+				tableCase: 'snake_case',
+				tablePrefix: 't_',
+				drizzleKitOut: 'drizzle',
+			});
+	});
+
+	test('rejects unknown options', () => {
+		expect(() => parseConfig({ splitFile: 'true' })).toThrow(
+			'Unknown generator option: "splitFile".\nSupported options: ',
+		);
+	});
+
+	test.each([
+		['splitFiles', 'yes', '"true" or "false"'],
+		['tableCase', 'kebab-case', 'one of "preserve", "camelCase", "PascalCase", "snake_case"'],
+		['tablePrefix', 't-', 'a string of letters, digits, "_" or "$"'],
+		['cuidImportPath', '', 'a non-empty string'],
+		['validators', ['zod'], 'one of "none", "zod", "valibot"'],
+	])('rejects invalid value of %s', (key, value, expected) => {
+		expect(() => parseConfig({ [key]: value })).toThrow(
+			`Invalid value of generator option "${key}": ${JSON.stringify(value)}.\nExpected ${expected}.`,
+		);
+	});
+});
@@ -0,0 +1,23 @@
+import { describe, expect, test } from 'vitest';
+import { generateFixture } from './utils';
+
+describe('db factory', () => {
+	test('generates createDb of the driver with schema of tables and relations', async () => {
+		const files = await generateFixture('pg', { driver: 'node-postgres' });
+
+		expect(files['db.ts']).toMatchSnapshot();
+	});
+
+	test('imports schema of split files from their index', async () => {
+		const files = await generateFixture('sqlite', { driver: 'better-sqlite3', splitFiles: true });
+
+		expect(files['db.ts']).toContain(`import * as generated from './index'`);
+		expect(files['db.ts']).toContain(`return drizzle(new Database(url.replace(/^file:/, '')), { schema });`);
+	});
+
+	test('rejects drivers of other databases', async () => {
+		await expect(generateFixture('mysql', { driver: 'postgres-js' })).rejects.toThrow(
+			'Driver "postgres-js" doesn\'t support mysql databases.\nSupported drivers: mysql2, planetscale-serverless.',
+		);
+	});
+});
@@ -0,0 +1,24 @@
+import { generateDrizzleSchema } from '@/api';
+import { describe, expect, test } from 'vitest';
+
+describe('client defaults', () => {
+	test('generates ids of client defaults with $defaultFn', async () => {
+		const files = await generateDrizzleSchema({
+			datamodel: `datasource db {
+  provider = "sqlite"
+  url      = "file:dev.db"
+}
+
+model Ids {
+  uuid  String @id @default(uuid())
+  uuid7 String @default(uuid(7))
+  cuid  String @default(cuid())
+  cuid2 String @default(cuid(2))
+  nano  String @default(nanoid(8))
+  ulid  String @default(ulid())
+}`,
+		});
+
+		expect(files['schema.ts']).toMatchSnapshot();
+	});
+});
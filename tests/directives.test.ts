@@ -0,0 +1,115 @@
+import { type Config, generateDrizzleSchema } from '@/api';
+import { describe, expect, test } from 'vitest';
+
+const sqliteSchema = (fields: string) =>
+	generateDrizzleSchema({
+		datamodel: `datasource db {
+  provider = "sqlite"
+  url      = "file:dev.db"
+}
+
+model Event {
+  id Int @id
+${fields}
+}`,
+	});
+
+const pgSchema = (models: string, config: Partial<Config> = {}) =>
+	generateDrizzleSchema({
+		datamodel: `datasource db {
+  provider = "postgresql"
+  url      = env("DATABASE_URL")
+}
+
+${models}`,
+		config,
+	});
+
+const users = `/// Users of the app
+/// @drizzle.name(users)
+model User {
+  id       Int      @id
+  /// @drizzle.$type<{ theme: 'dark' | 'light' }>()
+  settings Json
+  /// [Profile]
+  profile  Json
+  /// @drizzle.type(citext)
+  email    String
+  /// @drizzle.mode(string)
+  joinedAt DateTime
+  /// @drizzle.ignore
+  secret   String
+  logs     Log[]
+}
+
+/// @drizzle.ignore
+model Log {
+  id     Int  @id
+  userId Int
+  user   User @relation(fields: [userId], references: [id])
+}`;
+
+describe('directives', () => {
+	test('tweaks generated tables and columns', async () => {
+		const files = await pgSchema(users, { customTypesImportPath: '../types', jsonTypesImportPath: '../json' });
+
+		expect(files['schema.ts']).toMatchSnapshot();
+	});
+
+	test('rejects @drizzle.type without import path of custom types', async () => {
+		await expect(pgSchema(users)).rejects.toThrow(
+			'Directive @drizzle.type of field User.email requires "customTypesImportPath" generator option to be set',
+		);
+	});
+
+	test('rejects unknown directives and directives of other declarations', async () => {
+		await expect(pgSchema(`model User {
+  id   Int    @id
+  /// @drizzle.skip
+  name String
+}`)).rejects.toThrow(
+			'Unknown directive on field User.name: @drizzle.skip',
+		);
+		await expect(pgSchema(`/// @drizzle.mode(string)
+model User {
+  id Int @id
+}`)).rejects.toThrow(
+			"Directive @drizzle.mode can't be used on model User, only on field",
+		);
+	});
+
+	test('rejects ignoring fields used by keys', async () => {
+		await expect(pgSchema(`model User {
+  /// @drizzle.ignore
+  id Int @id
+}`)).rejects.toThrow(
+			"Field User.id is used by a key, index or relation and can't be ignored",
+		);
+	});
+
+	test('sets mode of column builder', async () => {
+		const files = await sqliteSchema(`  /// @drizzle.mode(timestamp)
+  at DateTime`);
+
+		expect(files['schema.ts']).toContain(`at: int('at', { mode: 'timestamp' }).notNull()`);
+	});
+
+	test('rejects modes unsupported by column builder', async () => {
+		await expect(sqliteSchema(`  /// @drizzle.mode(string)
+  at DateTime`)).rejects.toThrow(
+			"Directive @drizzle.mode(string) of field Event.at isn't supported by int column, supported modes are number, timestamp, timestamp_ms, boolean",
+		);
+	});
+
+	test('rejects modes changing type of values written in code', async () => {
+		await expect(sqliteSchema(`  /// @drizzle.mode(number)
+  at DateTime @updatedAt`)).rejects.toThrow(
+			'Directive @drizzle.mode(number) of field Event.at changes type of its values, while its default or @updatedAt values are written in mode timestamp_ms',
+		);
+		// `now()` of SQLite is set on the client
+		await expect(sqliteSchema(`  /// @drizzle.mode(number)
+  at DateTime @default(now())`)).rejects.toThrow(
+			'Directive @drizzle.mode(number) of field Event.at changes type of its values, while its default or @updatedAt values are written in mode timestamp_ms',
+		);
+	});
+});
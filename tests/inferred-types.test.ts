@@ -0,0 +1,33 @@
+import { describe, expect, test } from 'vitest';
+import { generateFixture } from './utils';
+
+describe('inferred types', () => {
+	test('generates types of tables and enums, named after models and enums', async () => {
+		const files = await generateFixture('pg', { inferTypes: true, tableCase: 'camelCase', tablePlural: true });
+		const schema = files['schema.ts']!;
+
+		expect(schema).toContain(`export type User = typeof users.$inferSelect;`);
+		expect(schema).toContain(`export type NewUser = typeof users.$inferInsert;`);
+		expect(schema).toContain(`export type Role = 'user' | 'ADMIN';`);
+	});
+
+	test('keeps types next to their tables in split files', async () => {
+		const files = await generateFixture('pg', { inferTypes: true, splitFiles: true });
+
+		expect(files['tables/User.ts']).toContain(`export type NewUser = typeof User.$inferInsert;`);
+	});
+
+	test('rejects clashing types', async () => {
+		await expect(
+			generateFixture('pg', {
+				inferTypes: true,
+				insertTypePrefix: '',
+				selectTypeSuffix: 'Row',
+				insertTypeSuffix: 'Row',
+			}),
+		)
+			.rejects.toThrow(
+				'Generated insertType "UserRow" of User clashes with selectType of User.\nAdjust naming options of generator.',
+			);
+	});
+});
@@ -0,0 +1,27 @@
+import { describe, expect, test } from 'vitest';
+import { drizzleKitSnapshot, generatedSnapshot, generateFixture, importFiles } from './utils';
+
+describe('MySQL', () => {
+	test('generates schema', async () => {
+		const files = await generateFixture('mysql');
+
+		expect(files['schema.ts']).toMatchSnapshot();
+	});
+
+	test('splits schema into files, which import everything they use', async () => {
+		const files = await generateFixture('mysql', { splitFiles: true });
+		expect(files).toMatchSnapshot();
+
+		const single = await importFiles('mysql-single', await generateFixture('mysql'), 'schema.ts');
+		const split = await importFiles('mysql-split', files, 'index.ts');
+
+		expect(await drizzleKitSnapshot('mysql', split)).toEqual(await drizzleKitSnapshot('mysql', single));
+	});
+
+	test('generates snapshot of drizzle-kit, equal to the one of generated schema', async () => {
+		const files = await generateFixture('mysql', { drizzleKitOut: 'drizzle' });
+		const schema = await importFiles('mysql-kit', files, 'schema.ts');
+
+		expect(generatedSnapshot(files, 'drizzle')).toEqual(await drizzleKitSnapshot('mysql', schema));
+	});
+});
@@ -0,0 +1,66 @@
+import { type Config, generateDrizzleSchema } from '@/api';
+import { describe, expect, test } from 'vitest';
+
+const sqliteSchema = (models: string, config: Partial<Config>) =>
+	generateDrizzleSchema({
+		datamodel: `datasource db {
+  provider = "sqlite"
+  url      = "file:dev.db"
+}
+
+${models}`,
+		config,
+	});
+
+const userPosts = `model UserAccount {
+  id    Int    @id
+  Posts Post[]
+}
+
+model Post {
+  id       Int         @id
+  authorId Int
+  author   UserAccount @relation(fields: [authorId], references: [id])
+}`;
+
+describe('naming', () => {
+	test('names variables and keys with naming options', async () => {
+		const files = await sqliteSchema(userPosts, {
+			tableCase: 'snake_case',
+			tablePlural: true,
+			tablePrefix: 't_',
+			columnCase: 'snake_case',
+		});
+
+		expect(files['schema.ts']).toContain(`export const t_user_accounts = sqliteTable('UserAccount', {`);
+		expect(files['schema.ts']).toContain(`author_id: int('authorId').notNull()`);
+		expect(files['schema.ts']).toContain(
+			`export const user_accountsRelations = relations(t_user_accounts, ({ many }) => ({
+	posts: many(t_posts, {`,
+		);
+	});
+
+	test('rejects reserved words as variables', async () => {
+		await expect(sqliteSchema('model Class {\n  id Int @id\n}', { tableCase: 'camelCase' })).rejects.toThrow(
+			'Generated table "class" of Class is a reserved word.\nAdjust naming options of generator or set @drizzle.name.',
+		);
+	});
+
+	test('rejects clashing keys of columns', async () => {
+		await expect(
+			sqliteSchema('model Note {\n  id Int @id\n  Text String\n  text String\n}', { columnCase: 'camelCase' }),
+		)
+			.rejects.toThrow(
+				'Generated column "text" of field Note.text clashes with column of field Note.Text.\nAdjust naming options of generator.',
+			);
+	});
+
+	test('rejects keys of relations clashing with keys of columns', async () => {
+		await expect(
+			sqliteSchema(userPosts.replace('Posts Post[]', 'Posts Post[]\n  posts Int'), { columnCase: 'camelCase' }),
+		)
+			.rejects.toThrow(
+				'Generated relation "posts" of field UserAccount.Posts clashes with column of field UserAccount.posts.\nAdjust naming options of generator.',
+			);
+	});
+});
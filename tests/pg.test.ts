@@ -0,0 +1,41 @@
+import { createTableRelationsHelpers, extractTablesRelationalConfig, normalizeRelation, One } from 'drizzle-orm';
+import { describe, expect, test } from 'vitest';
+import { drizzleKitSnapshot, generatedSnapshot, generateFixture, importFiles } from './utils';
+
+describe('PostgreSQL', () => {
+	test('generates schema', async () => {
+		const files = await generateFixture('pg');
+
+		expect(files['schema.ts']).toMatchSnapshot();
+	});
+
+	test('resolves back side of one-to-one relation from its opposite side', async () => {
+		const schema = await importFiles('pg-relations', await generateFixture('pg'), 'schema.ts');
+		const { tables, tableNamesMap } = extractTablesRelationalConfig(schema, createTableRelationsHelpers);
+
+		const profile = tables['User']!.relations['profile']!;
+		expect(profile).toBeInstanceOf(One);
+		expect((profile as One).config).toBeUndefined();
+
+		const { fields, references } = normalizeRelation(tables, tableNamesMap, profile);
+		expect(fields.map((e) => e.name)).toEqual(['id']);
+		expect(references.map((e) => e.name)).toEqual(['userId']);
+	});
+
+	test('splits schema into files, which import everything they use', async () => {
+		const files = await generateFixture('pg', { splitFiles: true });
+		expect(files).toMatchSnapshot();
+
+		const single = await importFiles('pg-single', await generateFixture('pg'), 'schema.ts');
+		const split = await importFiles('pg-split', files, 'index.ts');
+
+		expect(await drizzleKitSnapshot('postgresql', split)).toEqual(await drizzleKitSnapshot('postgresql', single));
+	});
+
+	test('generates snapshot of drizzle-kit, equal to the one of generated schema', async () => {
+		const files = await generateFixture('pg', { drizzleKitOut: 'drizzle' });
+		const schema = await importFiles('pg-kit', files, 'schema.ts');
+
+		expect(generatedSnapshot(files, 'drizzle')).toEqual(await drizzleKitSnapshot('postgresql', schema));
+	});
+});
@@ -0,0 +1,45 @@
+import { type Config, generateDrizzleSchema } from '@/api';
+import { describe, expect, test } from 'vitest';
+
+const mysqlSchema = (datasource: string, config: Partial<Config> = {}) =>
+	generateDrizzleSchema({
+		datamodel: `datasource db {
+  provider = "mysql"
+  url      = env("DATABASE_URL")
+${datasource}
+}
+
+model User {
+  id    Int    @id
+  posts Post[]
+}
+
+model Post {
+  id       Int   @id
+  authorId Int?
+  author   User? @relation(fields: [authorId], references: [id], onUpdate: NoAction)
+}`,
+		config,
+	});
+
+describe('referential actions', () => {
+	test('applies defaults of Prisma to actions which are not set', async () => {
+		const files = await mysqlSchema('');
+
+		expect(files['schema.ts']).toContain(`foreignColumns: [User.id]
+	})
+		.onDelete('set null')
+}));`);
+	});
+
+	test.each([
+		['relationMode = "prisma"', {}],
+		['referentialIntegrity = "prisma"', {}],
+		['', { foreignKeys: false }],
+	])('skips foreign keys, but not relations, with %s %o', async (datasource, config) => {
+		const schema = (await mysqlSchema(datasource, config))['schema.ts']!;
+
+		expect(schema).not.toContain('foreignKey');
+		expect(schema).toContain(`author: one(User, {`);
+	});
+});
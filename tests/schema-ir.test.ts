@@ -0,0 +1,71 @@
+import { prismaSchemaOptions } from '@/api';
+import { defaultConfig } from '@/config';
+import { buildSchemaIR, type DefaultIR } from '@/util/schema-ir';
+import { describe, expect, test } from 'vitest';
+import { fixturePath } from './utils';
+
+const fixtureTable = async (fixture: string, model: string) => {
+	const options = await prismaSchemaOptions({ schemaPath: fixturePath(fixture) });
+
+	return buildSchemaIR(options, defaultConfig, Infinity).tables.find((e) => e.name === model)!;
+};
+
+const fixtureDefaults = async (fixture: string) => {
+	const table = await fixtureTable(fixture, 'Defaults');
+
+	return Object.fromEntries(
+		table.columns.map((column): [string, DefaultIR | undefined] => [column.key, column.default]),
+	);
+};
+
+describe('schema IR', () => {
+	test('converts defaults to values of column types', async () => {
+		const defaults = await fixtureDefaults('pg');
+
+		expect(defaults).toMatchObject({
+			id: undefined,
+			// Beyond safe integers
+			big: { kind: 'value', value: 9007199254740993n },
+			dec: { kind: 'value', value: '1.5' },
+			tz: { kind: 'value', value: '03:04:05.000' },
+			byt: { kind: 'value', value: Buffer.from([1, 2]) },
+			arr: { kind: 'list', values: [1n, 2n] },
+			dt: { kind: 'value', value: new Date('2020-01-02T03:04:05.678Z') },
+			d: { kind: 'value', value: new Date('2020-01-02T00:00:00Z') },
+			tm: { kind: 'value', value: '03:04:05.000' },
+			js: { kind: 'value', value: { a: [1, 2] } },
+			str: { kind: 'value', value: "it's" },
+			f: { kind: 'value', value: 1.25 },
+			b: { kind: 'value', value: false },
+		});
+	});
+
+	test('converts enum defaults to database names of values', async () => {
+		const user = await fixtureTable('pg', 'User');
+
+		expect(user.columns.find((e) => e.name === 'role')!.default).toEqual({ kind: 'value', value: 'user' });
+	});
+
+	test('reads referential actions from the schema when DMMF lacks them', async () => {
+		const options = await prismaSchemaOptions({ schemaPath: fixturePath('pg') });
+		// Earlier versions of Prisma 6 don't expose `relationOnUpdate`
+		for (const model of options.dmmf.datamodel.models) {
+			for (const field of model.fields) delete (field as { relationOnUpdate?: string }).relationOnUpdate;
+		}
+
+		const invoice = buildSchemaIR(options, defaultConfig, Infinity).tables.find((e) => e.name === 'Invoice')!;
+
+		expect(invoice.foreignKeys).toMatchObject([{
+			name: 'Invoice_userId_fkey',
+			onDelete: 'restrict',
+			onUpdate: 'restrict',
+		}]);
+	});
+
+	test('keeps falsy defaults', async () => {
+		const defaults = await fixtureDefaults('sqlite');
+
+		expect(defaults['b']).toEqual({ kind: 'value', value: false });
+		expect(defaults['n']).toEqual({ kind: 'value', value: 0 });
+	});
+});
@@ -0,0 +1,5 @@
+import fs from 'fs';
+import { tmpFolder } from './utils';
+
+// Generated files are only written to be imported by tests
+export const teardown = () => fs.rmSync(tmpFolder, { recursive: true, force: true });
@@ -0,0 +1,27 @@
+import { describe, expect, test } from 'vitest';
+import { drizzleKitSnapshot, generatedSnapshot, generateFixture, importFiles } from './utils';
+
+describe('SQLite', () => {
+	test('generates schema', async () => {
+		const files = await generateFixture('sqlite');
+
+		expect(files['schema.ts']).toMatchSnapshot();
+	});
+
+	test('splits schema into files, which import everything they use', async () => {
+		const files = await generateFixture('sqlite', { splitFiles: true });
+		expect(files).toMatchSnapshot();
+
+		const single = await importFiles('sqlite-single', await generateFixture('sqlite'), 'schema.ts');
+		const split = await importFiles('sqlite-split', files, 'index.ts');
+
+		expect(await drizzleKitSnapshot('sqlite', split)).toEqual(await drizzleKitSnapshot('sqlite', single));
+	});
+
+	test('generates snapshot of drizzle-kit, equal to the one of generated schema', async () => {
+		const files = await generateFixture('sqlite', { drizzleKitOut: 'drizzle' });
+		const schema = await importFiles('sqlite-kit', files, 'schema.ts');
+
+		expect(generatedSnapshot(files, 'drizzle')).toEqual(await drizzleKitSnapshot('sqlite', schema));
+	});
+});
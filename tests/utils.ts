@@ -0,0 +1,67 @@
+import { type Config, generateDrizzleSchema } from '@/api';
+import type { Dialect } from '@/util/drizzle-kit';
+import * as kit from 'drizzle-kit/api';
+import fs from 'fs';
+import path from 'path';
+
+/** Folder of generated files, inside of the repo to resolve `drizzle-orm` */
+export const tmpFolder = path.join(__dirname, '.tmp');
+
+/**
+ * Path of a schema from `fixtures` folder
+ */
+export const fixturePath = (fixture: string) => path.join(__dirname, 'fixtures', `${fixture}.prisma`);
+
+/**
+ * Generates output files of a schema from `fixtures` folder
+ */
+export const generateFixture = (fixture: string, config: Partial<Config> = {}) =>
+	generateDrizzleSchema({ schemaPath: fixturePath(fixture), config });
+
+/**
+ * Writes generated files into a folder of `tmpFolder` and imports one of them
+ */
+export const importFiles = async (
+	folder: string,
+	files: Record<string, string>,
+	entry: string,
+): Promise<Record<string, unknown>> => {
+	const root = path.join(tmpFolder, folder);
+	fs.rmSync(root, { recursive: true, force: true });
+
+	for (const [file, content] of Object.entries(files)) {
+		fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+		fs.writeFileSync(path.join(root, file), content);
+	}
+
+	return import(path.join(root, entry));
+};
+
+// Snapshot as written to JSON, without ids, which drizzle-kit generates randomly
+const comparable = (snapshot: object) => {
+	const { id: _id, prevId: _prevId, ...rest } = JSON.parse(
+		JSON.stringify(snapshot, (_, value) => typeof value === 'bigint' ? value.toString() : value),
+	);
+
+	return rest;
+};
+
+/**
+ * Reads snapshot from baseline migration of generated files
+ */
+export const generatedSnapshot = (files: Record<string, string>, drizzleKitOut: string) =>
+	comparable(JSON.parse(files[path.join(drizzleKitOut, 'meta/0000_snapshot.json')]!));
+
+/**
+ * Builds snapshot of imported schema with drizzle-kit
+ */
+export const drizzleKitSnapshot = async (dialect: Dialect, schema: Record<string, unknown>) => {
+	switch (dialect) {
+		case 'postgresql':
+			return comparable(kit.generateDrizzleJson(schema));
+		case 'mysql':
+			return comparable(await kit.generateMySQLDrizzleJson(schema));
+		case 'sqlite':
+			return comparable(await kit.generateSQLiteDrizzleJson(schema));
+	}
+};
@@ -0,0 +1,41 @@
+import { type Config, generateDrizzleSchema } from '@/api';
+import * as v from 'valibot';
+import { describe, expect, test } from 'vitest';
+import { importFiles } from './utils';
+
+const datamodel = `datasource db {
+  provider = "postgresql"
+  url      = env("DATABASE_URL")
+}
+
+model Tag {
+  id    Int      @id
+  code  String   @db.VarChar(3)
+  codes String[] @db.VarChar(3)
+}`;
+
+type Parse = (value: unknown) => boolean;
+
+const importValidators = async (validators: Config['validators']) => {
+	const files = await generateDrizzleSchema({ datamodel, config: { validators } });
+
+	return { files, validators: await importFiles(`validators-${validators}`, files, 'validators.ts') };
+};
+
+describe.each(
+	[
+		['zod', (schema: any): Parse => (value) => schema.safeParse(value).success],
+		['valibot', (schema: any): Parse => (value) => v.safeParse(schema, value).success],
+	] as const,
+)('%s validators', (validators, parser) => {
+	test('refines lengths of columns and of elements of list columns', async () => {
+		const { files, validators: schemas } = await importValidators(validators);
+		expect(files['validators.ts']).toMatchSnapshot();
+
+		const parse = parser(schemas['insertTagSchema']);
+
+		expect(parse({ id: 1, code: 'abc', codes: ['abc', 'de', 'f'] })).toBe(true);
+		expect(parse({ id: 1, code: 'abcd', codes: [] })).toBe(false);
+		expect(parse({ id: 1, code: 'abc', codes: ['abcd'] })).toBe(false);
+	});
+});
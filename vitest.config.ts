@@ -0,0 +1,14 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+	resolve: {
+		alias: {
+			'@': path.resolve(__dirname, 'src'),
+		},
+	},
+	test: {
+		include: ['tests/**/*.test.ts'],
+		globalSetup: './tests/setup.ts',
+	},
+});